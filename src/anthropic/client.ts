@@ -0,0 +1,281 @@
+import type { ChatMessage, ChatProvider, ChatStreamChunk, MCPTool, ModelCapabilities, ModelInfo, ModelParameters, TokenUsage } from '../types/index.js';
+import { getModelCapabilities, supportedParameters } from '../providers/capabilities.js';
+import { contentText } from '../providers/content.js';
+
+export interface AnthropicClientOptions {
+  name?: string;
+  baseURL?: string;
+  headers?: Record<string, string>;
+  // Sent as the anthropic-version header
+  apiVersion?: string;
+  modelCapabilities?: Record<string, Partial<ModelCapabilities>>;
+}
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Chat provider for Anthropic-style Messages APIs, streamed over server-sent events
+ */
+export class AnthropicClient implements ChatProvider {
+  readonly name: string;
+  private apiKey: string;
+  private model: string;
+  private parameters: ModelParameters = {};
+  private options: AnthropicClientOptions;
+
+  constructor(apiKey: string, model: string, options: AnthropicClientOptions = {}) {
+    this.name = options.name || 'anthropic';
+    this.apiKey = apiKey;
+    this.model = model;
+    this.options = options;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  getParameters(): ModelParameters {
+    return { ...this.parameters };
+  }
+
+  setParameters(parameters: ModelParameters): void {
+    this.parameters = { ...parameters };
+  }
+
+  async *streamChat(
+    messages: ChatMessage[],
+    tools: MCPTool[] = [],
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamChunk, void, unknown> {
+    const system = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => contentText(msg.content))
+      .join('\n\n');
+
+    const parameters = supportedParameters(
+      this.parameters,
+      getModelCapabilities(this.model, this.options.modelCapabilities)
+    );
+
+    const response = await fetch(`${this.baseURL()}/v1/messages`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.model,
+        // The Messages API requires a limit
+        max_tokens: parameters.maxTokens || 4096,
+        system: system || undefined,
+        messages: this.toAnthropicMessages(messages),
+        tools: tools.length > 0
+          ? tools.map(tool => ({
+              name: tool.name,
+              description: tool.description || '',
+              input_schema: tool.inputSchema
+            }))
+          : undefined,
+        temperature: parameters.temperature,
+        top_p: parameters.topP,
+        stop_sequences: parameters.stop,
+        stream: true
+      }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.text();
+      throw new Error(`Anthropic API error ${response.status}: ${body}`);
+    }
+
+    // Tool use blocks arrive as partial JSON keyed by content block index
+    const toolUses = new Map<number, { id: string; name: string; json: string }>();
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, cachedTokens: 0 };
+
+    for await (const event of readServerSentEvents(response.body)) {
+      switch (event.type) {
+        case 'message_start': {
+          // Input tokens are reported up front, cache reads and writes separately
+          const start = event.message?.usage || {};
+          usage.cachedTokens = start.cache_read_input_tokens || 0;
+          usage.promptTokens = (start.input_tokens || 0) + usage.cachedTokens + (start.cache_creation_input_tokens || 0);
+          break;
+        }
+        case 'message_delta':
+          usage.completionTokens = event.usage?.output_tokens ?? usage.completionTokens;
+          break;
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            toolUses.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: '' });
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            yield event.delta.text;
+          } else if (event.delta?.type === 'input_json_delta') {
+            const toolUse = toolUses.get(event.index);
+            if (toolUse) toolUse.json += event.delta.partial_json;
+          }
+          break;
+        case 'error':
+          throw new Error(`Anthropic API error: ${event.error?.message || JSON.stringify(event.error)}`);
+      }
+    }
+
+    const ordered = [...toolUses.entries()].sort(([a], [b]) => a - b);
+    for (const [, toolUse] of ordered) {
+      let args: any;
+      try {
+        args = JSON.parse(toolUse.json || '{}');
+      } catch (error) {
+        yield {
+          type: 'tool_call',
+          id: toolUse.id,
+          tool: toolUse.name,
+          args: {},
+          error: `Invalid arguments for ${toolUse.name}: ${error instanceof Error ? error.message : String(error)}`
+        };
+        continue;
+      }
+      yield { type: 'tool_call', id: toolUse.id, tool: toolUse.name, args };
+    }
+
+    yield { type: 'usage', usage };
+  }
+
+  async chat(messages: ChatMessage[], tools: MCPTool[] = []): Promise<string> {
+    let response = '';
+    for await (const chunk of this.streamChat(messages, tools)) {
+      if (typeof chunk === 'string') {
+        response += chunk;
+      }
+    }
+    return response;
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    let afterId: string | undefined;
+
+    // The list is paged; each page says whether there is another
+    do {
+      const query = new URLSearchParams({ limit: '1000', ...(afterId ? { after_id: afterId } : {}) });
+      const response = await fetch(`${this.baseURL()}/v1/models?${query}`, { headers: this.headers() });
+      if (!response.ok) {
+        const body = await response.text();
+        throw new Error(`Anthropic API error ${response.status}: ${body}`);
+      }
+
+      const page = await response.json() as { data: Array<{ id: string; created_at?: string }>; has_more?: boolean; last_id?: string };
+      for (const model of page.data) {
+        models.push({
+          id: model.id,
+          created: model.created_at ? Math.floor(Date.parse(model.created_at) / 1000) : undefined,
+          ownedBy: 'anthropic'
+        });
+      }
+      afterId = page.has_more ? page.last_id : undefined;
+    } while (afterId);
+
+    return models;
+  }
+
+  private baseURL(): string {
+    return (this.options.baseURL || 'https://api.anthropic.com').replace(/\/$/, '');
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'content-type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': this.options.apiVersion || '2023-06-01',
+      ...this.options.headers
+    };
+  }
+
+  private toAnthropicMessages(messages: ChatMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      if (msg.role === 'tool') {
+        // Tool results go back as user content; consecutive ones share a message
+        const block: AnthropicContentBlock = { type: 'tool_result', tool_use_id: msg.toolCallId || '', content: contentText(msg.content) };
+        const previous = result[result.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(block);
+        } else {
+          result.push({ role: 'user', content: [block] });
+        }
+        continue;
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+        const content: AnthropicContentBlock[] = [];
+        const text = contentText(msg.content);
+        if (text) {
+          content.push({ type: 'text', text });
+        }
+        for (const call of msg.toolCalls) {
+          content.push({ type: 'tool_use', id: call.id, name: call.name, input: JSON.parse(call.arguments || '{}') });
+        }
+        result.push({ role: 'assistant', content });
+        continue;
+      }
+
+      if (Array.isArray(msg.content)) {
+        result.push({
+          role: msg.role,
+          content: msg.content.map((part): AnthropicContentBlock => part.type === 'text'
+            ? { type: 'text', text: part.text }
+            : { type: 'image', source: { type: 'base64', media_type: part.mediaType, data: part.data } })
+        });
+        continue;
+      }
+
+      result.push({ role: msg.role, content: msg.content });
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Parse a server-sent event stream into its JSON data payloads
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any, void, unknown> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+
+      if (data) {
+        yield JSON.parse(data);
+      }
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import type { MCPServerManager } from '../mcp/manager.js';
+import type { ChatMessage, ChatProvider, ChatToolCall, MCPTool, RetryChunk, TokenUsage } from '../types/index.js';
+import { addUsage, emptyUsage } from './usage.js';
+
+export const DEFAULT_MAX_TOOL_ITERATIONS = 10;
+
+export interface AgentTurnHandlers {
+  onText?: (chunk: string) => void;
+  // Reasoning summary text, which arrives before the answer it belongs to
+  onReasoning?: (chunk: string) => void;
+  onToolCall?: (call: ChatToolCall, args: any) => void;
+  onToolResult?: (call: ChatToolCall, result: string) => void;
+  onToolError?: (call: ChatToolCall, error: unknown) => void;
+  onToolDenied?: (call: ChatToolCall) => void;
+  // The provider is waiting to retry a failed request. With `restart` set, the
+  // text shown so far is dropped and the reply streams again from the start.
+  onRetry?: (retry: RetryChunk) => void;
+}
+
+export interface AgentTurnOptions {
+  maxIterations?: number;
+  // Aborting stops the stream or the running tools; the turn ends as interrupted
+  signal?: AbortSignal;
+  // Sent ahead of the history on every request without being stored in it
+  systemPrompt?: string;
+  // Limits which tools the model is offered and may call
+  toolFilter?: (tool: MCPTool) => boolean;
+  // Asked before each tool call runs; calls it rejects are reported back to the model
+  approveToolCall?: (call: ChatToolCall, args: any) => Promise<boolean>;
+  // Called before every request, e.g. to keep the history inside the context window
+  beforeRequest?: (messages: ChatMessage[], framing: { systemPrompt?: string; tools: MCPTool[] }) => Promise<void>;
+  handlers?: AgentTurnHandlers;
+}
+
+export interface AgentTurnResult {
+  // Assistant text produced across every iteration of the turn
+  content: string;
+  // Text of the last request alone: the reply once the model is done with tools
+  finalContent: string;
+  iterations: number;
+  toolCalls: number;
+  failedToolCalls: number;
+  deniedToolCalls: number;
+  // True when the turn stopped because it reached maxIterations
+  hitIterationLimit: boolean;
+  // True when the turn was cancelled through the abort signal
+  interrupted: boolean;
+  // Tokens used by every request in the turn, as far as the provider reported them
+  usage: TokenUsage;
+  // Reasoning summaries across the turn, and the reasoning tokens spent (part of the completion tokens)
+  reasoning: string;
+  reasoningTokens: number;
+}
+
+/**
+ * Run one user turn: stream the model's reply, execute any tool calls it makes,
+ * feed the results back and repeat until the model answers without tools.
+ * Every assistant and tool message is appended to `messages`.
+ */
+export async function runAgentTurn(
+  provider: ChatProvider,
+  mcpManager: MCPServerManager,
+  messages: ChatMessage[],
+  options: AgentTurnOptions = {}
+): Promise<AgentTurnResult> {
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+  const handlers = options.handlers || {};
+
+  const result: AgentTurnResult = {
+    content: '',
+    finalContent: '',
+    iterations: 0,
+    toolCalls: 0,
+    failedToolCalls: 0,
+    deniedToolCalls: 0,
+    hitIterationLimit: false,
+    interrupted: false,
+    usage: emptyUsage(),
+    reasoning: '',
+    reasoningTokens: 0
+  };
+
+  while (true) {
+    if (options.signal?.aborted) {
+      result.interrupted = true;
+      return result;
+    }
+
+    result.iterations++;
+
+    const allTools = mcpManager.isConnected() ? mcpManager.getTools() : [];
+    const tools = options.toolFilter ? allTools.filter(options.toolFilter) : allTools;
+
+    await options.beforeRequest?.(messages, { systemPrompt: options.systemPrompt, tools });
+    const request: ChatMessage[] = options.systemPrompt
+      ? [{ role: 'system', content: options.systemPrompt }, ...messages]
+      : messages;
+    let text = '';
+    let reasoning = '';
+    const requested: Array<{ call: ChatToolCall; args: any; error?: string }> = [];
+
+    try {
+      for await (const chunk of provider.streamChat(request, tools, options.signal)) {
+        if (typeof chunk === 'string') {
+          text += chunk;
+          handlers.onText?.(chunk);
+        } else if (chunk.type === 'tool_call') {
+          requested.push({
+            call: {
+              id: chunk.id,
+              name: chunk.tool,
+              arguments: JSON.stringify(chunk.args)
+            },
+            args: chunk.args,
+            error: chunk.error
+          });
+        } else if (chunk.type === 'retry') {
+          if (chunk.restart) {
+            text = '';
+            reasoning = '';
+          }
+          handlers.onRetry?.(chunk);
+        } else if (chunk.type === 'usage') {
+          addUsage(result.usage, chunk.usage);
+        } else if (chunk.type === 'reasoning') {
+          if (chunk.text) {
+            reasoning += chunk.text;
+            handlers.onReasoning?.(chunk.text);
+          }
+          result.reasoningTokens += chunk.tokens ?? 0;
+        }
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        throw error;
+      }
+
+      // Keep whatever arrived before the cancellation
+      result.content += text;
+      result.finalContent = text;
+      result.reasoning = joinReasoning(result.reasoning, reasoning);
+      result.interrupted = true;
+      if (text) {
+        messages.push({ role: 'assistant', content: text, interrupted: true, reasoning: reasoning || undefined, timestamp: new Date() });
+      }
+      return result;
+    }
+
+    result.content += text;
+    result.finalContent = text;
+    result.reasoning = joinReasoning(result.reasoning, reasoning);
+
+    if (requested.length === 0) {
+      if (text) {
+        messages.push({ role: 'assistant', content: text, reasoning: reasoning || undefined, timestamp: new Date() });
+      }
+      return result;
+    }
+
+    messages.push({
+      role: 'assistant',
+      content: text,
+      toolCalls: requested.map(r => r.call),
+      reasoning: reasoning || undefined,
+      timestamp: new Date()
+    });
+
+    // Approvals may prompt the user, so ask for them one at a time before anything runs
+    const approved = new Set<ChatToolCall>();
+    for (const { call, args, error } of requested) {
+      // A call whose arguments didn't parse is never run, so there is nothing to approve
+      if (error || !options.approveToolCall || await options.approveToolCall(call, args)) {
+        approved.add(call);
+      }
+    }
+
+    // Calls from one response are independent, so run them together;
+    // the server manager enforces each server's concurrency limit
+    const outcomes = await Promise.all(requested.map(async ({ call, args, error: argsError }) => {
+      if (!approved.has(call)) {
+        handlers.onToolDenied?.(call);
+        return { call, content: 'The user denied this tool call.', failed: false, denied: true };
+      }
+
+      handlers.onToolCall?.(call, args);
+
+      try {
+        if (argsError) {
+          throw new Error(argsError);
+        }
+        if (!tools.some(tool => tool.name === call.name)) {
+          throw new Error(`Tool ${call.name} is not available`);
+        }
+
+        const toolResult = await mcpManager.callTool(call.name, args, options.signal);
+        const content = formatToolResult(toolResult);
+        handlers.onToolResult?.(call, content);
+        return { call, content, failed: false, denied: false };
+      } catch (error) {
+        if (options.signal?.aborted) {
+          return { call, content: 'The user cancelled this tool call.', failed: false, denied: false };
+        }
+
+        handlers.onToolError?.(call, error);
+        return {
+          call,
+          content: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          failed: true,
+          denied: false
+        };
+      }
+    }));
+
+    // Every tool call must be answered, even failed ones, or the API rejects the history
+    for (const outcome of outcomes) {
+      result.toolCalls++;
+      if (outcome.failed) {
+        result.failedToolCalls++;
+      }
+      if (outcome.denied) {
+        result.deniedToolCalls++;
+      }
+
+      messages.push({
+        role: 'tool',
+        content: outcome.content,
+        toolCallId: outcome.call.id,
+        timestamp: new Date()
+      });
+    }
+
+    if (options.signal?.aborted) {
+      result.interrupted = true;
+      return result;
+    }
+
+    if (result.iterations >= maxIterations) {
+      result.hitIterationLimit = true;
+      return result;
+    }
+  }
+}
+
+// Reasoning from consecutive requests, one paragraph each
+export function joinReasoning(earlier: string, later: string): string {
+  return [earlier, later].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Flatten an MCP tool result into text the model and the terminal can use
+ */
+export function formatToolResult(toolResult: any): string {
+  if (Array.isArray(toolResult)) {
+    return toolResult.map(r => r.text || JSON.stringify(r)).join('\n');
+  }
+
+  return typeof toolResult === 'string'
+    ? toolResult
+    : JSON.stringify(toolResult, null, 2);
+}
@@ -0,0 +1,228 @@
+import { MCPServerManager } from '../mcp/manager.js';
+import { createProvider, parseModelSpec, replayProvider, resolveProvider } from '../providers/factory.js';
+import { MarkdownRenderer } from './markdown.js';
+import { runAgentTurn, DEFAULT_MAX_TOOL_ITERATIONS } from './agent.js';
+import type { AgentTurnOptions } from './agent.js';
+import { loadSchema, runStructuredTurn } from './structured.js';
+import { getModelCapabilities } from '../providers/capabilities.js';
+import { ContextManager, summarizeHistory } from './context.js';
+import { calculateCost, getModelPrice } from './usage.js';
+import { mergeParameters, parseParameterFlags } from './parameters.js';
+import { resolvePersona, createToolFilter, buildSystemPrompt } from './persona.js';
+import { ToolPermissions, permissionModeFromFlags } from './permissions.js';
+import { loadConfig, parsePositiveInt, resolveModel, serverFromFlag } from './config.js';
+import type { AskOptions, ChatMessage, TokenUsage } from '../types/index.js';
+
+export type AskOutputFormat = 'text' | 'markdown' | 'json';
+
+// Exit codes for scripted use
+export const EXIT_API_ERROR = 1;
+export const EXIT_TOOL_ERROR = 2;
+export const EXIT_SCHEMA_ERROR = 3;
+
+interface AskToolCallRecord {
+  name: string;
+  args: any;
+  result?: string;
+  error?: string;
+}
+
+/**
+ * Answer a single prompt without the interactive UI and write the result to stdout.
+ * Diagnostics go to stderr so the output can be piped.
+ * @returns The process exit code
+ */
+export async function runAsk(promptArgs: string[], options: AskOptions): Promise<number> {
+  const format = parseFormat(options.format);
+  const prompt = await buildPrompt(promptArgs);
+  if (!prompt) {
+    throw new Error('No prompt given. Pass it as an argument or pipe it on stdin.');
+  }
+
+  const config = await loadConfig(options.config);
+  const persona = resolvePersona(config, options.persona);
+  // A `provider:model` spec picks the provider too, unless --provider says otherwise
+  const modelSpec = parseModelSpec(config, options.model || persona.model || '');
+  const resolvedProvider = options.replay
+    ? replayProvider(options.replay)
+    : resolveProvider(config, options.provider || modelSpec.provider);
+  const model = resolveModel(config, modelSpec.model, resolvedProvider.config.model);
+  const maxIterations = parsePositiveInt(options.maxToolIterations)
+    ?? config.chat?.maxToolIterations
+    ?? DEFAULT_MAX_TOOL_ITERATIONS;
+  const responseFormat = options.schema ? await loadSchema(options.schema) : undefined;
+  const schemaRetries = parseNonNegativeInt(options.schemaRetries, '--schema-retries')
+    ?? config.chat?.schemaRetries;
+
+  const permissions = new ToolPermissions(config, permissionModeFromFlags(options));
+  const provider = createProvider(resolvedProvider, model, {
+    record: options.record,
+    modelCapabilities: config.modelCapabilities
+  });
+  provider.setParameters(mergeParameters(
+    resolvedProvider.config.parameters,
+    { temperature: persona.temperature },
+    parseParameterFlags(options),
+    { responseFormat }
+  ));
+  const mcpManager = new MCPServerManager();
+  const contextManager = new ContextManager(
+    config.context,
+    async (older) => summarizeHistory(provider, older)
+  );
+
+  const serverConfigs = options.server
+    ? [serverFromFlag(options.server)]
+    : config.mcpServers;
+
+  const failures = await mcpManager.connectAll(serverConfigs);
+  for (const failure of failures) {
+    console.error(`Failed to connect to MCP server ${failure.server.name}: ${failure.error}`);
+  }
+
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt, timestamp: new Date() }];
+  const toolCalls = new Map<string, AskToolCallRecord>();
+
+  try {
+    const turnOptions: AgentTurnOptions = {
+      maxIterations,
+      systemPrompt: await buildSystemPrompt(mcpManager, model, persona),
+      toolFilter: createToolFilter(persona.allowedTools),
+      // Nobody is there to answer, so tools that would need approval are refused
+      approveToolCall: async (call) => {
+        const resolved = mcpManager.resolveTool(call.name);
+        if (!resolved) return true;
+
+        const permission = permissions.check(resolved.serverName, resolved.toolName, resolved.tool);
+        if (permission !== 'allow') {
+          console.error(`Tool call ${call.name} needs approval; refused (use --yolo to allow it)`);
+        }
+        return permission === 'allow';
+      },
+      beforeRequest: async (history, framing) => {
+        await contextManager.fit(history, model, framing);
+      },
+      handlers: {
+        onToolCall: (call, args) => {
+          toolCalls.set(call.id, { name: call.name, args });
+        },
+        onToolResult: (call, result) => {
+          const record = toolCalls.get(call.id);
+          if (record) record.result = result;
+        },
+        onToolError: (call, error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          const record = toolCalls.get(call.id);
+          if (record) record.error = message;
+          console.error(`Tool call ${call.name} failed: ${message}`);
+        },
+        onRetry: (retry) => {
+          console.error(`${retry.reason}, retrying in ${Math.ceil(retry.delayMs / 1000)}s (attempt ${retry.attempt} of ${retry.maxRetries})`);
+        }
+      }
+    };
+
+    if (responseFormat) {
+      const turn = await runStructuredTurn(provider, mcpManager, messages, responseFormat, {
+        ...turnOptions,
+        maxRetries: schemaRetries,
+        describeSchema: !getModelCapabilities(model, config.modelCapabilities).jsonSchema,
+        onInvalid: (errors, retry) => {
+          console.error(`Reply did not match the schema, asking again (retry ${retry}):`);
+          errors.forEach(error => console.error(`  ${error}`));
+        }
+      });
+
+      if (turn.hitIterationLimit) {
+        console.error(`Stopped after ${maxIterations} rounds of tool calls`);
+        return EXIT_TOOL_ERROR;
+      }
+      if (turn.errors.length > 0) {
+        console.error(`Reply did not match the schema after ${turn.attempts} attempts:`);
+        turn.errors.forEach(error => console.error(`  ${error}`));
+        return EXIT_SCHEMA_ERROR;
+      }
+
+      // Only the validated JSON goes to stdout, whatever the format
+      process.stdout.write(JSON.stringify(turn.value, null, 2) + '\n');
+      return turn.failedToolCalls > 0 ? EXIT_TOOL_ERROR : 0;
+    }
+
+    const turn = await runAgentTurn(provider, mcpManager, messages, turnOptions);
+
+    if (turn.hitIterationLimit) {
+      console.error(`Stopped after ${maxIterations} rounds of tool calls`);
+    }
+
+    writeOutput(format, turn.finalContent, {
+      model,
+      toolCalls: [...toolCalls.values()],
+      iterations: turn.iterations,
+      usage: turn.usage,
+      cost: calculateCost(turn.usage, getModelPrice(model, config.pricing))
+    });
+
+    return turn.failedToolCalls > 0 || turn.hitIterationLimit ? EXIT_TOOL_ERROR : 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (format === 'json') {
+      process.stdout.write(JSON.stringify({ model, error: message }, null, 2) + '\n');
+    }
+    console.error(`Error: ${message}`);
+    return EXIT_API_ERROR;
+  } finally {
+    await mcpManager.disconnectAll();
+  }
+}
+
+function writeOutput(
+  format: AskOutputFormat,
+  content: string,
+  details: { model: string; toolCalls: AskToolCallRecord[]; iterations: number; usage: TokenUsage; cost?: number }
+): void {
+  switch (format) {
+    case 'json':
+      process.stdout.write(JSON.stringify({ ...details, response: content }, null, 2) + '\n');
+      break;
+    case 'markdown':
+      process.stdout.write(MarkdownRenderer.render(content));
+      break;
+    default:
+      process.stdout.write(content.endsWith('\n') ? content : content + '\n');
+  }
+}
+
+function parseNonNegativeInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${flag} must be a whole number of at least 0`);
+  }
+  return parsed;
+}
+
+function parseFormat(format?: string): AskOutputFormat {
+  const normalized = (format || 'text').toLowerCase();
+  if (normalized === 'text' || normalized === 'markdown' || normalized === 'json') {
+    return normalized;
+  }
+  throw new Error(`Unknown output format: ${format}. Use text, markdown or json.`);
+}
+
+/**
+ * Combine the prompt arguments with anything piped on stdin
+ */
+async function buildPrompt(promptArgs: string[]): Promise<string> {
+  const argPrompt = promptArgs.join(' ').trim();
+  const stdinText = process.stdin.isTTY ? '' : (await readStdin()).trim();
+
+  return [argPrompt, stdinText].filter(Boolean).join('\n\n');
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
@@ -0,0 +1,217 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { ChatContentPart, ChatMessage, MCPResourceContents } from '../types/index.js';
+
+export const DEFAULT_MAX_TEXT_CHARS = 50000;
+export const DEFAULT_MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+// `@path` preceded by the start of the line or whitespace; `\ ` escapes a space in the path
+const INLINE_REFERENCE_PATTERN = /(^|\s)@((?:\\ |[^\s])+)/g;
+
+export interface AttachmentOptions {
+  maxTextChars?: number;
+  maxImageBytes?: number;
+}
+
+// `server` is set for MCP resources, whose path is the resource URI
+export type Attachment =
+  | { kind: 'image'; path: string; name: string; size: number; mediaType: string; data: string; server?: string }
+  | { kind: 'text'; path: string; name: string; size: number; text: string; truncated: boolean; server?: string };
+
+export interface ResourceReference {
+  server: string;
+  uri: string;
+}
+
+/**
+ * Read a local file as an attachment: images are base64-encoded, anything
+ * else must be text and is cut off at the size cap.
+ */
+export async function loadAttachment(filePath: string, options: AttachmentOptions = {}): Promise<Attachment> {
+  const resolved = resolvePath(filePath);
+  const name = path.basename(resolved);
+
+  const stats = await fs.stat(resolved).catch(() => undefined);
+  if (!stats) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  if (!stats.isFile()) {
+    throw new Error(`Not a file: ${filePath}`);
+  }
+
+  const mediaType = IMAGE_MEDIA_TYPES[path.extname(resolved).toLowerCase()];
+  if (mediaType) {
+    const maxBytes = options.maxImageBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+    if (stats.size > maxBytes) {
+      throw new Error(`${name} is ${formatBytes(stats.size)}, over the ${formatBytes(maxBytes)} limit for images`);
+    }
+    const data = await fs.readFile(resolved);
+    return { kind: 'image', path: resolved, name, size: stats.size, mediaType, data: data.toString('base64') };
+  }
+
+  const buffer = await fs.readFile(resolved);
+  if (buffer.includes(0)) {
+    throw new Error(`${name} is neither an image (png, jpg, gif, webp) nor a text file`);
+  }
+
+  const maxChars = options.maxTextChars ?? DEFAULT_MAX_TEXT_CHARS;
+  const content = buffer.toString('utf-8');
+  const truncated = content.length > maxChars;
+  return {
+    kind: 'text',
+    path: resolved,
+    name,
+    size: stats.size,
+    text: truncated ? content.slice(0, maxChars) : content,
+    truncated
+  };
+}
+
+/**
+ * Find `@path` references to files that exist. Anything else starting with
+ * `@` (a handle, a decorator) is left alone.
+ */
+export async function findInlineReferences(input: string): Promise<string[]> {
+  const references: string[] = [];
+
+  for (const match of input.matchAll(INLINE_REFERENCE_PATTERN)) {
+    // Trailing punctuation belongs to the sentence, not the path
+    const candidate = match[2].replace(/\\ /g, ' ').replace(/[.,;:!?)]+$/, '');
+    const stats = await fs.stat(resolvePath(candidate)).catch(() => undefined);
+    if (stats?.isFile() && !references.includes(candidate)) {
+      references.push(candidate);
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Split `server:uri` (with or without a leading `@`) into its parts, when
+ * server is one of the given server names
+ */
+export function parseResourceReference(reference: string, serverNames: string[]): ResourceReference | undefined {
+  const text = reference.startsWith('@') ? reference.slice(1) : reference;
+  const separator = text.indexOf(':');
+  if (separator <= 0) {
+    return undefined;
+  }
+
+  const server = text.slice(0, separator);
+  const uri = text.slice(separator + 1);
+  return serverNames.includes(server) && uri ? { server, uri } : undefined;
+}
+
+/**
+ * Find `@server:uri` references to resources of the connected MCP servers
+ */
+export function findResourceReferences(input: string, serverNames: string[]): ResourceReference[] {
+  const references: ResourceReference[] = [];
+
+  for (const match of input.matchAll(INLINE_REFERENCE_PATTERN)) {
+    const candidate = match[2].replace(/\\ /g, ' ').replace(/[.,;:!?)]+$/, '');
+    const reference = parseResourceReference(candidate, serverNames);
+    if (reference && !references.some(other => other.server === reference.server && other.uri === reference.uri)) {
+      references.push(reference);
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Turn what a resource read returned into attachments, with the same limits
+ * as local files. Binary contents other than images can't be sent.
+ */
+export function resourceAttachments(
+  server: string,
+  contents: MCPResourceContents[],
+  options: AttachmentOptions = {}
+): Attachment[] {
+  return contents.map(content => {
+    const name = resourceName(content.uri);
+
+    if (content.text !== undefined) {
+      const maxChars = options.maxTextChars ?? DEFAULT_MAX_TEXT_CHARS;
+      const truncated = content.text.length > maxChars;
+      return {
+        kind: 'text',
+        path: content.uri,
+        name,
+        size: Buffer.byteLength(content.text),
+        text: truncated ? content.text.slice(0, maxChars) : content.text,
+        truncated,
+        server
+      };
+    }
+
+    const mediaType = content.mimeType || 'application/octet-stream';
+    if (!Object.values(IMAGE_MEDIA_TYPES).includes(mediaType)) {
+      throw new Error(`${server}:${content.uri} is ${mediaType}, which can't be inlined`);
+    }
+    const size = Buffer.byteLength(content.blob || '', 'base64');
+    const maxBytes = options.maxImageBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+    if (size > maxBytes) {
+      throw new Error(`${name} is ${formatBytes(size)}, over the ${formatBytes(maxBytes)} limit for images`);
+    }
+    return { kind: 'image', path: content.uri, name, size, mediaType, data: content.blob || '', server };
+  });
+}
+
+/**
+ * Combine the typed text with attachments. Text files are inlined; images
+ * turn the message into multi-part content.
+ */
+export function buildUserContent(text: string, attachments: Attachment[]): ChatMessage['content'] {
+  const inlined = attachments
+    .filter((attachment): attachment is Extract<Attachment, { kind: 'text' }> => attachment.kind === 'text')
+    .map(attachment => {
+      const note = attachment.truncated ? `\n[... truncated to the first ${attachment.text.length} characters]` : '';
+      const label = attachment.server ? `Resource: ${attachment.server}:${attachment.path}` : `File: ${attachment.path}`;
+      return `${label}\n\`\`\`\n${attachment.text}\n\`\`\`${note}`;
+    });
+
+  const fullText = [text, ...inlined].filter(Boolean).join('\n\n');
+  const images = attachments.filter((attachment): attachment is Extract<Attachment, { kind: 'image' }> => attachment.kind === 'image');
+
+  if (images.length === 0) {
+    return fullText;
+  }
+
+  return [
+    { type: 'text', text: fullText },
+    ...images.map((image): ChatContentPart => ({ type: 'image', mediaType: image.mediaType, data: image.data, name: image.name }))
+  ];
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// The last segment of the URI's path, or the whole URI when it has none
+function resourceName(uri: string): string {
+  const segment = uri.replace(/\/+$/, '').split('/').pop() || uri;
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function resolvePath(filePath: string): string {
+  const expanded = filePath === '~' || filePath.startsWith('~/')
+    ? path.join(os.homedir(), filePath.slice(1))
+    : filePath;
+  return path.resolve(expanded);
+}
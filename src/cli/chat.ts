@@ -1,53 +1,180 @@
-import { createInterface } from 'readline';
-import { config } from 'dotenv';
-import { OpenAIClient } from '../openai/client.js';
-import { MCPClient } from '../mcp/client.js';
-import { UIHelpers } from './ui.js';
-import { MarkdownRenderer } from './markdown.js';
-import type { ChatOptions, ChatMessage, MCPServerConfig } from '../types/index.js';
+import { clearLine, createInterface, cursorTo } from 'readline';
 import chalk from 'chalk';
+import { MCPServerManager } from '../mcp/manager.js';
+import { createProvider, parseModelSpec, replayProvider, resolveProvider } from '../providers/factory.js';
+import type { ResolvedProvider } from '../providers/factory.js';
+import { getModelCapabilities, unsupportedParameters } from '../providers/capabilities.js';
+import { UIHelpers } from './ui.js';
+import { StreamingMarkdownRenderer } from './markdown.js';
+import { ThinkingBlock } from './thinking.js';
+import { runAgentTurn, DEFAULT_MAX_TOOL_ITERATIONS } from './agent.js';
+import type { AgentTurnOptions } from './agent.js';
+import { loadSchema, runStructuredTurn } from './structured.js';
+import { SessionStore, fromSessionServers, toSessionServers } from './sessions.js';
+import { ContextManager, summarizeHistory, getContextLimit } from './context.js';
+import { ModelCache } from './models.js';
+import { calculateCost, getModelPrice, recordSessionUsage, summarizeUsage } from './usage.js';
+import { applyParameterSetting, mergeParameters, parameterName, parseParameterFlags } from './parameters.js';
+import {
+  buildUserContent,
+  findInlineReferences,
+  findResourceReferences,
+  loadAttachment,
+  parseResourceReference,
+  resourceAttachments
+} from './attachments.js';
+import type { Attachment } from './attachments.js';
+import { completeChatInput, findPromptCommand, parsePromptArguments, promptCommandName, promptMessagesToChat } from './prompts.js';
+import type { PromptCommand } from './prompts.js';
+import { resolvePersona, listPersonas, createToolFilter, buildSystemPrompt } from './persona.js';
+import type { ActivePersona } from './persona.js';
+import { ToolPermissions, permissionModeFromFlags } from './permissions.js';
+import { loadConfig, parsePositiveInt, resolveModel, serverFromFlag } from './config.js';
+import type { AppConfig, ChatMessage, ChatToolCall, ChatOptions, ChatProvider, ChatSession, JsonSchemaFormat, MCPServerConfig, MCPServerHealth, ModelParameters, TokenUsage } from '../types/index.js';
+
+// A second Ctrl+C within this window exits instead of just interrupting
+const DOUBLE_INTERRUPT_WINDOW_MS = 2000;
 
-// Load environment variables from .env file
-config();
+const RESET_SCHEMA_VALUES = ['off', 'none', 'clear'];
+
+// Offered by tab completion, next to the prompts of the connected servers
+const CHAT_COMMANDS = [
+  '/attach', '/clear', '/context', '/exit', '/help', '/load', '/model', '/persona', '/prompts', '/quit',
+  '/resources', '/save', '/schema', '/servers', '/sessions', '/set', '/thinking', '/usage'
+];
 
 export async function startChat(options: ChatOptions): Promise<void> {
   // Load configuration
   const config = await loadConfig(options.config);
-  
-  // Get OpenAI API key (prioritize env vars, then config file)
-  const apiKey = process.env.OPENAI_API_KEY || config.openai.apiKey;
-  if (!apiKey) {
-    throw new Error('OpenAI API key not found. Set OPENAI_API_KEY in .env file, environment variable, or config file.');
+
+  // Restore a saved session if requested
+  const sessionStore = new SessionStore(config.sessions?.directory);
+  // A replayed chat is not a real conversation, and its `replay` provider can't be resumed
+  const autoSave = config.sessions?.autoSave !== false && !options.replay;
+  let resumed: ChatSession | null = null;
+
+  if (options.resume) {
+    resumed = options.resume === true
+      ? await sessionStore.latest()
+      : await sessionStore.load(options.resume);
+
+    if (!resumed) {
+      throw new Error(`No saved sessions found in ${sessionStore.getDirectory()}`);
+    }
   }
 
-  // Get model (prioritize command line, then env var, then config, then default)
-  const model = options.model || process.env.OPENAI_MODEL || config.openai.model || process.env.DEFAULT_MODEL || 'gpt-4o';
+  // Pick the persona (command line, then resumed session, then config default)
+  let persona: ActivePersona = resolvePersona(config, options.persona || resumed?.persona);
+
+  // Provider and model come as a pair: from the command line (or an explicitly
+  // chosen persona) when given, otherwise from the resumed session, otherwise
+  // from the persona and config defaults. Mixing sources would send one
+  // provider's model name to another.
+  const chosenOnCli = Boolean(options.model || options.provider || (options.persona && persona.model));
+  const fromSession = resumed && !chosenOnCli && !options.replay ? savedProvider(config, resumed) : undefined;
+  const modelSpec = parseModelSpec(config, fromSession ? '' : options.model || persona.model || '');
+  const resolvedProvider = options.replay
+    ? replayProvider(options.replay)
+    : fromSession?.resolved || resolveProvider(config, options.provider || modelSpec.provider);
+  const model = fromSession?.model || resolveModel(config, modelSpec.model, resolvedProvider.config.model);
+
+  // Limit on model/tool round trips within a single turn
+  const maxIterations = parsePositiveInt(options.maxToolIterations)
+    ?? config.chat?.maxToolIterations
+    ?? DEFAULT_MAX_TOOL_ITERATIONS;
 
-  // Initialize OpenAI client
-  const openai = new OpenAIClient(apiKey, model);
+  // Model parameters come from the provider config, then the persona, then the command line, then /set
+  const cliParameters = parseParameterFlags(options);
+  let providerParameters: ModelParameters | undefined;
+  let parameterOverrides: ModelParameters = {};
+  // Set with /schema; replies must then be JSON matching it
+  let responseFormat: JsonSchemaFormat | undefined;
+  // Whether reasoning summaries are requested and shown; /thinking toggles it
+  let showThinking = config.chat?.showThinking !== false;
+
+  const openProvider = (resolved: ResolvedProvider, model: string): ChatProvider => {
+    const created = createProvider(resolved, model, {
+      record: options.record,
+      modelCapabilities: config.modelCapabilities
+    });
+    providerParameters = resolved.config.parameters;
+    return created;
+  };
+
+  const getParameters = (): ModelParameters =>
+    mergeParameters(providerParameters, { temperature: persona.temperature }, cliParameters, parameterOverrides, {
+      responseFormat,
+      reasoningSummary: showThinking || undefined
+    });
+
+  // Initialize the chat provider; /model can swap it later
+  let provider: ChatProvider = openProvider(resolvedProvider, model);
+  provider.setParameters(getParameters());
+
+  // Model lists from `ai-chat models`, used to flag unknown names in /model
+  const modelCache = new ModelCache(config.models);
+
+  // Show the model with its context size and capabilities
+  const showModelInfo = () => {
+    const currentModel = provider.getModel();
+    const capabilities = getModelCapabilities(currentModel, config.modelCapabilities);
+    UIHelpers.showModelInfo(currentModel, persona.name, provider.name, {
+      contextLimit: config.context?.maxTokens || getContextLimit(currentModel, config.context?.contextLimits),
+      tools: capabilities.tools,
+      vision: capabilities.vision
+    });
+  };
   
-  // Initialize MCP client
-  const mcpClient = new MCPClient();
+  // Keep long conversations inside the model's context window
+  const contextManager = new ContextManager(
+    config.context,
+    async (older) => summarizeHistory(provider, older)
+  );
+
+  // Decide which tool calls need the user's approval
+  const permissions = new ToolPermissions(config, permissionModeFromFlags(options), options.config);
+
+  // Initialize MCP server manager
+  const mcpManager = new MCPServerManager();
   
-  // Connect to MCP server if specified
-  if (options.server || config.mcpServers.length > 0) {
-    const serverConfig = options.server 
-      ? { name: 'custom', command: options.server, args: [] }
-      : config.mcpServers[0];
+  // Connect to every configured MCP server (or the --server override, or the resumed session's servers)
+  const serverConfigs = options.server
+    ? [serverFromFlag(options.server)]
+    : resumed
+      ? savedServers(config, resumed)
+      : config.mcpServers;
+
+  await connectServers(serverConfigs);
+
+  let session: ChatSession = resumed || sessionStore.create(model, toSessionServers(mcpManager.getServerConfigs(), config.mcpServers));
+  session.persona = persona.name;
+  session.provider = provider.name;
+
+  async function connectServers(serverConfigs: MCPServerConfig[]) {
+    if (serverConfigs.length === 0) return;
+
+    // Show connection attempt
+    const connectSpinner = UIHelpers.createSpinner(
+      serverConfigs.length === 1 ? 'Connecting to MCP server...' : `Connecting to ${serverConfigs.length} MCP servers...`
+    );
+    connectSpinner.start();
     
-    try {
-      // Show connection attempt
-      const connectSpinner = UIHelpers.createSpinner('Connecting to MCP server...');
-      connectSpinner.start();
-      
-      await mcpClient.connect(serverConfig);
-      connectSpinner.stop();
-      
-      UIHelpers.showConnectionStatus(mcpClient.getServerName(), true);
-      UIHelpers.updateWindowTitle(`Connected to ${mcpClient.getServerName()}`);
-      UIHelpers.showSuccessMessage(`Connected to ${mcpClient.getServerName()}`);
-    } catch (error) {
-      console.error(UIHelpers.formatError(`Failed to connect to MCP server: ${error}`));
+    const failures = await mcpManager.connectAll(serverConfigs);
+    connectSpinner.stop();
+    
+    for (const serverName of mcpManager.getServerNames()) {
+      UIHelpers.showConnectionStatus(serverName, 'connected');
+      UIHelpers.showSuccessMessage(`Connected to ${serverName}`);
+    }
+
+    for (const failure of failures) {
+      UIHelpers.showConnectionStatus(failure.server.name, 'disconnected');
+      console.error(UIHelpers.formatError(`Failed to connect to MCP server ${failure.server.name}: ${failure.error}`));
+    }
+
+    if (mcpManager.isConnected()) {
+      UIHelpers.updateWindowTitle(`Connected to ${mcpManager.getServerNames().join(', ')}`);
+    } else {
       UIHelpers.showWarningMessage('Continuing without MCP server...');
       UIHelpers.updateWindowTitle('No MCP Server');
     }
@@ -58,10 +185,14 @@ export async function startChat(options: ChatOptions): Promise<void> {
   
   // Wait for welcome animation to complete
   setTimeout(() => {
-    UIHelpers.showModelInfo(model);
+    showModelInfo();
     
-    if (mcpClient.isConnected()) {
-      UIHelpers.showAvailableTools(mcpClient.getTools());
+    if (mcpManager.isConnected()) {
+      UIHelpers.showAvailableTools(mcpManager.getTools());
+    }
+
+    if (resumed) {
+      UIHelpers.showSessionRestored(resumed);
     }
     
     // Show command palette
@@ -71,167 +202,487 @@ export async function startChat(options: ChatOptions): Promise<void> {
     startChatInterface();
   }, 1000);
 
+  function showServerStatus(health: MCPServerHealth) {
+    const detail = health.status === 'connected'
+      ? `Reconnected with ${health.tools} tools (restart ${health.restarts})`
+      : health.status === 'reconnecting'
+        ? `Connection lost${health.lastError ? `: ${health.lastError}` : ''}. Its tools are unavailable until it reconnects.`
+        : `Disconnected${health.lastError ? ` (last error: ${health.lastError})` : ''}`;
+    UIHelpers.showConnectionStatus(health.name, health.status, detail);
+  }
+
   function startChatInterface() {
     // Set up readline interface with custom prompt
     const rl = createInterface({
       input: process.stdin,
       output: process.stdout,
-      prompt: UIHelpers.createCustomPrompt()
+      prompt: UIHelpers.createCustomPrompt(),
+      completer: (line: string, callback: (error: Error | null, result: [string[], string]) => void) => {
+        completeChatInput(line, CHAT_COMMANDS, mcpManager.getPrompts(), (command, argumentName, value) =>
+          mcpManager.completePromptArgument(command.server, command.prompt.name, argumentName, value)
+        ).then(result => callback(null, result), () => callback(null, [[], line]));
+      }
     });
     
     // Prevent stdin from pausing
-    process.stdin.setRawMode(false);
     process.stdin.resume();
 
-    // Chat history
-    const messages: ChatMessage[] = [];
     let isProcessing = false;
 
     // Track whether we're intentionally shutting down
     let isShuttingDown = false;
 
+    // Cancels the turn in progress; a second Ctrl+C soon after exits instead
+    let turnController: AbortController | undefined;
+    let lastInterruptAt = 0;
+
+    // Files from /attach, sent with the next message
+    let pendingAttachments: Attachment[] = [];
+
+    // Server notices that arrived during a reply, shown when the prompt returns
+    let pendingNotices: Array<() => void> = [];
+
+    const showNotice = (show: () => void) => {
+      if (isShuttingDown) return;
+      if (isProcessing) {
+        pendingNotices.push(show);
+        return;
+      }
+
+      // Print over the prompt, then draw it again with whatever was typed
+      clearLine(process.stdout, 0);
+      cursorTo(process.stdout, 0);
+      show();
+      rl.prompt(true);
+    };
+
+    mcpManager.onStatusChange(health => showNotice(() => showServerStatus(health)));
+    mcpManager.onResourceUpdated((serverName, uri) => showNotice(() => UIHelpers.showResourceUpdated(serverName, uri)));
+
     // Keep the process alive with a heartbeat timer
     const heartbeat = setInterval(() => {
       // This timer keeps the event loop active
     }, 1000);
 
+    // Ask the user whether a tool call may run, honoring saved policies
+    const approveToolCall = async (call: ChatToolCall, args: any, signal: AbortSignal): Promise<boolean> => {
+      const resolved = mcpManager.resolveTool(call.name);
+      if (!resolved) return true;
+
+      const permission = permissions.check(resolved.serverName, resolved.toolName, resolved.tool);
+      if (permission === 'allow') return true;
+      if (permission === 'deny') {
+        console.log(UIHelpers.formatError(`Tool ${call.name} is not allowed (${permissions.getMode()} mode)`));
+        return false;
+      }
+
+      console.log(UIHelpers.formatToolApproval(resolved.serverName, resolved.toolName, args));
+      const answer = await new Promise<string>(resolve => {
+        // Ctrl+C while the question is open counts as "no"
+        signal.addEventListener('abort', () => resolve(''), { once: true });
+        rl.question(UIHelpers.createApprovalPrompt(), { signal }, resolve);
+      });
+      const choice = answer.trim().toLowerCase();
+
+      if (choice === 'a' || choice === 'always') {
+        try {
+          const saved = await permissions.remember(resolved.serverName, resolved.toolName, 'allow');
+          UIHelpers.showSuccessMessage(saved
+            ? `Always allowing ${resolved.toolName} on ${resolved.serverName} (saved to ${options.config})`
+            : `Always allowing ${resolved.toolName} on ${resolved.serverName} for this session`);
+        } catch (error) {
+          console.log(UIHelpers.formatError(`Failed to save permission: ${error instanceof Error ? error.message : error}`));
+        }
+        return true;
+      }
+
+      return choice === 'y' || choice === 'yes';
+    };
+
+    const attachFile = async (filePath: string) => {
+      try {
+        const attachment = await loadAttachment(filePath, config.attachments);
+        pendingAttachments.push(attachment);
+        UIHelpers.showSuccessMessage(`Attached ${UIHelpers.formatAttachment(attachment)}; it will be sent with your next message`);
+      } catch (error) {
+        console.log(UIHelpers.formatError(`Failed to attach ${filePath}: ${error instanceof Error ? error.message : error}`));
+      }
+    };
+
+    // /resources [server], or /resources read|subscribe|unsubscribe <server:uri>
+    const browseResources = async (argument: string) => {
+      const [action, ...rest] = argument.split(/\s+/);
+      const target = rest.join(' ');
+
+      if (!['read', 'subscribe', 'unsubscribe'].includes(action.toLowerCase())) {
+        try {
+          UIHelpers.showResources(await mcpManager.listResources(argument || undefined));
+        } catch (error) {
+          console.log(UIHelpers.formatError(`Failed to list resources: ${error instanceof Error ? error.message : error}`));
+        }
+        return;
+      }
+
+      const reference = parseResourceReference(target, mcpManager.getServerNames());
+      if (!reference) {
+        UIHelpers.showWarningMessage(`Usage: /resources ${action.toLowerCase()} <server:uri>, where server is one of: ${mcpManager.getServerNames().join(', ') || 'none connected'}`);
+        return;
+      }
+
+      try {
+        if (action.toLowerCase() === 'read') {
+          UIHelpers.showResourceContents(reference.server, await mcpManager.readResource(reference.server, reference.uri));
+        } else if (action.toLowerCase() === 'subscribe') {
+          await mcpManager.subscribeResource(reference.server, reference.uri);
+          UIHelpers.showSuccessMessage(`Subscribed to ${reference.server}:${reference.uri}; you'll be told when it changes`);
+        } else {
+          await mcpManager.unsubscribeResource(reference.server, reference.uri);
+          UIHelpers.showSuccessMessage(`Unsubscribed from ${reference.server}:${reference.uri}`);
+        }
+      } catch (error) {
+        console.log(UIHelpers.formatError(`Failed to ${action.toLowerCase()} ${reference.server}:${reference.uri}: ${error instanceof Error ? error.message : error}`));
+      }
+    };
+
+    // Expand a server prompt, asking for required arguments that weren't typed,
+    // and add its messages to the conversation. The model answers when the last
+    // one is from the user.
+    const runPrompt = async (command: PromptCommand, argument: string) => {
+      isProcessing = true;
+      const name = promptCommandName(command);
+      const finish = () => {
+        isProcessing = false;
+        startPrompt();
+      };
+
+      let values: Record<string, string>;
+      try {
+        const parsed = parsePromptArguments(command.prompt, argument);
+        values = parsed.values;
+        for (const missing of parsed.missing) {
+          // Ctrl+C cancels the prompt rather than exiting
+          turnController = new AbortController();
+          const signal = turnController.signal;
+          const answer = await new Promise<string>(resolve => {
+            signal.addEventListener('abort', () => resolve(''), { once: true });
+            rl.question(UIHelpers.createArgumentPrompt(missing.name, missing.description), { signal }, resolve);
+          });
+          turnController = undefined;
+          if (!answer.trim()) {
+            UIHelpers.showWarningMessage(`Cancelled ${name}: ${missing.name} is required`);
+            finish();
+            return;
+          }
+          values[missing.name] = answer.trim();
+        }
+      } catch (error) {
+        console.log(UIHelpers.formatError(error instanceof Error ? error.message : String(error)));
+        finish();
+        return;
+      }
+
+      let messages: ChatMessage[];
+      try {
+        messages = promptMessagesToChat((await mcpManager.getPrompt(command.server, command.prompt.name, values)).messages);
+      } catch (error) {
+        console.log(UIHelpers.formatError(`Failed to run ${name}: ${error instanceof Error ? error.message : error}`));
+        finish();
+        return;
+      }
+      if (messages.length === 0) {
+        UIHelpers.showWarningMessage(`${name} returned no messages`);
+        finish();
+        return;
+      }
+
+      UIHelpers.clearLine();
+      console.log(UIHelpers.formatSystemMessage(`💬 ${name} added ${messages.length} ${messages.length === 1 ? 'message' : 'messages'}`));
+      for (const message of messages) {
+        console.log(UIHelpers.formatPromptMessage(message.role, message.content));
+      }
+      session.messages.push(...messages);
+
+      if (messages[messages.length - 1].role === 'user') {
+        await runTurn();
+        return;
+      }
+      if (autoSave) {
+        await saveSession();
+      }
+      finish();
+    };
+
+    // Collect /attach files and inline @path and @server:uri references, then send the message
+    const sendMessage = async (userMessage: string) => {
+      isProcessing = true;
+      const attachments = [...pendingAttachments];
+
+      for (const { server, uri } of findResourceReferences(userMessage, mcpManager.getServerNames())) {
+        try {
+          attachments.push(...resourceAttachments(server, await mcpManager.readResource(server, uri), config.attachments));
+        } catch (error) {
+          console.log(UIHelpers.formatError(`Failed to include ${server}:${uri}: ${error instanceof Error ? error.message : error}`));
+        }
+      }
+
+      for (const reference of await findInlineReferences(userMessage)) {
+        try {
+          attachments.push(await loadAttachment(reference, config.attachments));
+        } catch (error) {
+          console.log(UIHelpers.formatError(`Failed to attach ${reference}: ${error instanceof Error ? error.message : error}`));
+        }
+      }
+
+      const model = provider.getModel();
+      if (attachments.some(attachment => attachment.kind === 'image')
+        && !getModelCapabilities(model, config.modelCapabilities).vision) {
+        console.log(UIHelpers.formatError(`${model} is not known to accept images. Switch to a vision model with /model, set "vision": true for it under modelCapabilities, or drop attached files with /attach clear.`));
+        isProcessing = false;
+        startPrompt();
+        return;
+      }
+
+      pendingAttachments = [];
+      await processMessage(userMessage, attachments);
+    };
+
     // Process message function that handles async operations
-    const processMessage = async (userMessage: string) => {
+    const processMessage = async (userMessage: string, attachments: Attachment[] = []) => {
       // Clear the input line for cleaner display
       UIHelpers.clearLine();
       
       // Add user message to history
-      messages.push({ role: 'user', content: userMessage, timestamp: new Date() });
+      session.messages.push({ role: 'user', content: buildUserContent(userMessage, attachments), timestamp: new Date() });
       console.log(UIHelpers.formatUserMessage(userMessage));
+      if (attachments.length > 0) {
+        console.log(UIHelpers.formatSystemMessage(`📎 ${attachments.map(attachment => UIHelpers.formatAttachment(attachment)).join(', ')}`));
+      }
+
+      await runTurn();
+    };
 
+    // Get the model's reply to the conversation so far, then return to the prompt
+    const runTurn = async () => {
       // Show enhanced thinking animation
       const thinkingAnimation = UIHelpers.showThinkingAnimation();
       let typingAnimation: NodeJS.Timeout | undefined;
+      let toolSpinner: ReturnType<typeof UIHelpers.createSpinner> | undefined;
+      const runningTools = new Map<string, string>();
+      let renderer: StreamingMarkdownRenderer | undefined;
+      let thinking: ThinkingBlock | undefined;
+      let retrySpinner: ReturnType<typeof UIHelpers.createSpinner> | undefined;
+      let retryTimer: NodeJS.Timeout | undefined;
+
+      // Commit the rest of the streamed answer before printing anything else
+      const finishResponse = () => {
+        collapseThinking();
+        if (renderer) {
+          renderer.end();
+          console.log('\n'); // New line after response
+          renderer = undefined;
+        }
+      };
+
+      const collapseThinking = () => {
+        thinking?.collapse();
+        thinking = undefined;
+      };
+
+      const stopRetryCountdown = () => {
+        clearInterval(retryTimer);
+        retryTimer = undefined;
+        retrySpinner?.stop();
+        retrySpinner = undefined;
+      };
+
+      // After a tool finishes, keep spinning for the others or wait for the model again
+      const resumeAfterTool = () => {
+        if (runningTools.size > 0) {
+          toolSpinner = UIHelpers.createSpinner(UIHelpers.formatRunningTools([...runningTools.values()]));
+          toolSpinner.start();
+        } else {
+          toolSpinner = undefined;
+          typingAnimation = UIHelpers.showTypingIndicator();
+        }
+      };
 
       try {
         isProcessing = true;
+        turnController = new AbortController();
+        const signal = turnController.signal;
         
-        // Get available tools
-        const tools = mcpClient.isConnected() ? mcpClient.getTools() : [];
-        
-        // Stream response from OpenAI
-        let assistantResponse = '';
-        let toolCallsMade = false;
+        UIHelpers.clearThinkingAnimation(thinkingAnimation);
+        typingAnimation = UIHelpers.showTypingIndicator();
 
+        // Stream response from OpenAI, running tool calls until the model is done
         try {
-          UIHelpers.clearThinkingAnimation(thinkingAnimation);
-          typingAnimation = UIHelpers.showTypingIndicator();
-
-          for await (const chunk of openai.streamChat(messages, tools)) {
-            if (typeof chunk === 'string') {
-              // Text response - accumulate for markdown rendering
-              assistantResponse += chunk;
-              
-              // Show a simple progress indicator instead of raw text
-              if (!toolCallsMade && assistantResponse.length % 50 === 0) {
-                // Update typing indicator periodically to show progress
+          const turnOptions: AgentTurnOptions = {
+            maxIterations,
+            signal,
+            systemPrompt: await buildSystemPrompt(mcpManager, provider.getModel(), persona),
+            toolFilter: createToolFilter(persona.allowedTools),
+            approveToolCall: async (call, args) => {
+              if (typingAnimation) {
                 UIHelpers.clearTypingIndicator(typingAnimation);
-                typingAnimation = UIHelpers.showTypingIndicator();
+                typingAnimation = undefined;
               }
-            } else if (chunk.type === 'tool_call') {
-              // Tool call
-              if (!toolCallsMade) {
-                UIHelpers.clearTypingIndicator(typingAnimation);
-                toolCallsMade = true;
+              finishResponse();
+              return approveToolCall(call, args, signal);
+            },
+            beforeRequest: async (messages, framing) => {
+              const fit = await contextManager.fit(messages, provider.getModel(), framing);
+              if (fit.changed) {
+                if (typingAnimation) {
+                  UIHelpers.clearTypingIndicator(typingAnimation);
+                }
+                console.log(UIHelpers.formatSystemMessage(UIHelpers.formatContextFit(fit)));
+                if (typingAnimation) {
+                  typingAnimation = UIHelpers.showTypingIndicator();
+                }
               }
+            },
+            handlers: {
+              onReasoning: (chunk) => {
+                if (!showThinking) return;
+                stopRetryCountdown();
+                if (!thinking) {
+                  if (typingAnimation) {
+                    UIHelpers.clearTypingIndicator(typingAnimation);
+                    typingAnimation = undefined;
+                  }
+                  // Reasoning for a follow-up request goes below the text before it
+                  finishResponse();
+                  thinking = new ThinkingBlock(process.stdout);
+                }
+                thinking.write(chunk);
+              },
+              onText: (chunk) => {
+                stopRetryCountdown();
+                if (!renderer) {
+                  if (typingAnimation) {
+                    UIHelpers.clearTypingIndicator(typingAnimation);
+                    typingAnimation = undefined;
+                  }
+                  collapseThinking();
 
-              try {
-                console.log(`\n${UIHelpers.formatSystemMessage(`Calling tool: ${chunk.tool}`)}`);
+                  // Display the assistant prefix, then render text as it arrives
+                  process.stdout.write(UIHelpers.formatAssistantMessage(''));
+                  renderer = new StreamingMarkdownRenderer(process.stdout, UIHelpers.ASSISTANT_INDENT);
+                }
+                renderer.write(chunk);
+              },
+              onToolCall: (call) => {
+                stopRetryCountdown();
+                if (typingAnimation) {
+                  UIHelpers.clearTypingIndicator(typingAnimation);
+                  typingAnimation = undefined;
+                }
+                finishResponse();
+                toolSpinner?.stop();
+                console.log(`\n${UIHelpers.formatSystemMessage(`Calling tool: ${call.name}`)}`);
                 
-                // Show tool execution spinner
-                const toolSpinner = UIHelpers.createSpinner(`Executing ${chunk.tool}...`);
+                // One spinner tracks every tool call still running
+                runningTools.set(call.id, call.name);
+                toolSpinner = UIHelpers.createSpinner(UIHelpers.formatRunningTools([...runningTools.values()]));
                 toolSpinner.start();
-                
-                const toolResult = await mcpClient.callTool(chunk.tool, chunk.args);
-                toolSpinner.stop();
-                
-                // Format tool result for display
-                const resultText = Array.isArray(toolResult) 
-                  ? toolResult.map(r => r.text || JSON.stringify(r)).join('\n')
-                  : typeof toolResult === 'string' 
-                    ? toolResult 
-                    : JSON.stringify(toolResult, null, 2);
-
-                console.log(UIHelpers.formatToolMessage(chunk.tool, resultText));
-
-                // Add tool result to messages for context
-                messages.push({
-                  role: 'assistant',
-                  content: `Used tool ${chunk.tool} with result: ${resultText}`,
-                  timestamp: new Date()
-                });
-
-              } catch (error) {
-                console.log(UIHelpers.formatError(`Tool call failed: ${error}`));
+              },
+              onToolResult: (call, result) => {
+                toolSpinner?.stop();
+                runningTools.delete(call.id);
+                console.log(UIHelpers.formatToolMessage(call.name, result));
+                resumeAfterTool();
+              },
+              onToolDenied: (call) => {
+                console.log(UIHelpers.formatSystemMessage(`Skipped tool: ${call.name}`));
+              },
+              onToolError: (call, error) => {
+                toolSpinner?.stop();
+                runningTools.delete(call.id);
+                console.log(UIHelpers.formatError(`Tool call ${call.name} failed: ${error instanceof Error ? error.message : error}`));
+                resumeAfterTool();
+              },
+              onRetry: (retry) => {
+                if (typingAnimation) {
+                  UIHelpers.clearTypingIndicator(typingAnimation);
+                  typingAnimation = undefined;
+                }
+                finishResponse();
+                stopRetryCountdown();
+                // The retry answers from scratch, in a fresh block below the abandoned one
+                if (retry.restart) {
+                  UIHelpers.showWarningMessage('The reply above was cut off and is discarded; a new one follows');
+                }
+
+                const retryAt = Date.now() + retry.delayMs;
+                const secondsLeft = () => Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+                retrySpinner = UIHelpers.createSpinner(UIHelpers.formatRetryCountdown(retry, secondsLeft()));
+                retrySpinner.start();
+                retryTimer = setInterval(() => {
+                  if (retrySpinner) {
+                    retrySpinner.text = chalk.gray(UIHelpers.formatRetryCountdown(retry, secondsLeft()));
+                  }
+                }, 1000);
               }
             }
+          };
+
+          const structured = responseFormat
+            ? await runStructuredTurn(provider, mcpManager, session.messages, responseFormat, {
+                ...turnOptions,
+                maxRetries: config.chat?.schemaRetries,
+                describeSchema: !getModelCapabilities(provider.getModel(), config.modelCapabilities).jsonSchema,
+                onInvalid: (errors, retry) => {
+                  finishResponse();
+                  UIHelpers.showWarningMessage(`Reply did not match the ${responseFormat?.name} schema, asking again (retry ${retry}):\n  ${errors.join('\n  ')}`);
+                  typingAnimation = UIHelpers.showTypingIndicator();
+                }
+              })
+            : undefined;
+          const turn = structured || await runAgentTurn(provider, mcpManager, session.messages, turnOptions);
+
+          stopRetryCountdown();
+          finishResponse();
+          showTurnUsage(turn.usage, turn.reasoningTokens);
+
+          if (structured && !structured.interrupted && !structured.hitIterationLimit) {
+            if (structured.errors.length === 0) {
+              UIHelpers.showSuccessMessage(`Reply matches the ${responseFormat?.name} schema`);
+            } else {
+              UIHelpers.showWarningMessage(`Reply still does not match the schema after ${structured.attempts} attempts:\n  ${structured.errors.join('\n  ')}`);
+            }
+          }
+
+          if (turn.interrupted) {
+            toolSpinner?.stop();
+            if (typingAnimation) {
+              UIHelpers.clearTypingIndicator(typingAnimation);
+              typingAnimation = undefined;
+            }
+            UIHelpers.showWarningMessage('Response interrupted');
+          }
+
+          if (turn.hitIterationLimit) {
+            if (typingAnimation) {
+              UIHelpers.clearTypingIndicator(typingAnimation);
+              typingAnimation = undefined;
+            }
+            UIHelpers.showWarningMessage(`Stopped after ${maxIterations} rounds of tool calls`);
           }
         } catch (streamError) {
-          if (thinkingAnimation) UIHelpers.clearThinkingAnimation(thinkingAnimation);
-          if (typingAnimation) UIHelpers.clearTypingIndicator(typingAnimation);
+          stopRetryCountdown();
+          finishResponse();
+          toolSpinner?.stop();
+          if (typingAnimation) {
+            UIHelpers.clearTypingIndicator(typingAnimation);
+            typingAnimation = undefined;
+          }
           console.error(UIHelpers.formatError(`Streaming error: ${streamError instanceof Error ? streamError.message : 'Unknown streaming error'}`));
           console.error('Full streaming error:', streamError);
         }
-        
-        if (toolCallsMade && !assistantResponse) {
-          // If only tool calls were made, get a follow-up response
-          typingAnimation = UIHelpers.showTypingIndicator();
-          
-          for await (const chunk of openai.streamChat(messages, [])) {
-            if (typeof chunk === 'string') {
-              assistantResponse += chunk;
-              
-              // Update progress indicator
-              if (assistantResponse.length % 50 === 0) {
-                UIHelpers.clearTypingIndicator(typingAnimation);
-                typingAnimation = UIHelpers.showTypingIndicator();
-              }
-            }
-          }
-        }
 
-        // Clear typing indicator and render the complete response
         if (typingAnimation) {
           UIHelpers.clearTypingIndicator(typingAnimation);
         }
-
-        if (assistantResponse) {
-          // Display the assistant prefix
-          process.stdout.write(UIHelpers.formatAssistantMessage(''));
-          
-          // Check if the response contains markdown and render accordingly
-          if (MarkdownRenderer.isMarkdown(assistantResponse)) {
-            // Show markdown rendering indicator
-            const markdownAnimation = UIHelpers.showMarkdownRenderIndicator();
-            
-            // Small delay to show the indicator
-            setTimeout(() => {
-              UIHelpers.clearTypingIndicator(markdownAnimation);
-              
-              // Render as markdown with syntax highlighting
-              const renderedMarkdown = MarkdownRenderer.render(assistantResponse);
-              process.stdout.write(renderedMarkdown);
-              
-              console.log('\n'); // New line after response
-            }, 300);
-          } else {
-            // Fallback to plain text with basic formatting
-            process.stdout.write(chalk.white(assistantResponse));
-            console.log('\n'); // New line after response
-          }
-          
-          messages.push({ 
-            role: 'assistant', 
-            content: assistantResponse, 
-            timestamp: new Date() 
-          });
-        }
-
       } catch (error) {
         if (thinkingAnimation) UIHelpers.clearThinkingAnimation(thinkingAnimation);
         if (typingAnimation) UIHelpers.clearTypingIndicator(typingAnimation);
@@ -240,7 +691,12 @@ export async function startChat(options: ChatOptions): Promise<void> {
         console.error('Full error details:', error);
       }
       
+      if (autoSave) {
+        await saveSession();
+      }
+
       isProcessing = false;
+      turnController = undefined;
 
       // Show separator and return to prompt
       console.log(UIHelpers.createSeparator());
@@ -262,6 +718,184 @@ export async function startChat(options: ChatOptions): Promise<void> {
       }, 10);
     };
 
+    const saveSession = async (): Promise<boolean> => {
+      if (options.replay) {
+        UIHelpers.showWarningMessage('Sessions are not saved while replaying a recording');
+        return false;
+      }
+      try {
+        session.model = provider.getModel();
+        session.provider = provider.name;
+        session.servers = toSessionServers(mcpManager.getServerConfigs(), config.mcpServers);
+        await sessionStore.save(session);
+        return true;
+      } catch (error) {
+        console.log(UIHelpers.formatError(`Failed to save session: ${error instanceof Error ? error.message : error}`));
+        return false;
+      }
+    };
+
+    // Counts the system prompt and tools the next request would carry, as fitting does
+    const showContextUsage = async () => {
+      const model = provider.getModel();
+      const toolFilter = createToolFilter(persona.allowedTools);
+      const tools = mcpManager.isConnected() ? mcpManager.getTools() : [];
+      UIHelpers.showContextUsage(contextManager.getUsage(session.messages, model, {
+        systemPrompt: await buildSystemPrompt(mcpManager, model, persona),
+        tools: toolFilter ? tools.filter(toolFilter) : tools
+      }));
+    };
+
+    const listSessions = async () => {
+      try {
+        UIHelpers.showSessions(await sessionStore.list(), session.id);
+      } catch (error) {
+        console.log(UIHelpers.formatError(`Failed to list sessions: ${error instanceof Error ? error.message : error}`));
+      }
+    };
+
+    const loadSession = async (idOrName: string) => {
+      try {
+        const loaded = await sessionStore.load(idOrName);
+
+        // Reconnect if the session was using a different set of servers
+        const wanted = loaded.servers.map(s => s.name).sort().join(',');
+        const current = mcpManager.getServerNames().sort().join(',');
+        if (wanted !== current) {
+          await mcpManager.disconnectAll();
+          await connectServers(savedServers(config, loaded));
+        }
+
+        const saved = options.replay ? undefined : savedProvider(config, loaded);
+        if (saved && saved.resolved.name !== provider.name) {
+          provider = openProvider(saved.resolved, saved.model);
+        } else {
+          provider.setModel(saved?.model || loaded.model);
+        }
+        session = loaded;
+        try {
+          persona = resolvePersona(config, loaded.persona);
+        } catch (error) {
+          UIHelpers.showWarningMessage(`${error instanceof Error ? error.message : error}; keeping persona ${persona.name}`);
+        }
+        session.persona = persona.name;
+        provider.setParameters(getParameters());
+        showModelInfo();
+        UIHelpers.showSessionRestored(loaded);
+      } catch (error) {
+        console.log(UIHelpers.formatError(`Failed to load session: ${error instanceof Error ? error.message : error}`));
+      }
+    };
+
+    const switchPersona = (name: string) => {
+      try {
+        const next = resolvePersona(config, name);
+        if (next.model) {
+          // Resolved as at startup: a bare model name belongs to the default provider
+          const modelSpec = parseModelSpec(config, next.model);
+          const resolved = options.replay ? undefined : resolveProvider(config, modelSpec.provider);
+          if (resolved && resolved.name !== provider.name) {
+            provider = openProvider(resolved, modelSpec.model);
+          } else {
+            provider.setModel(modelSpec.model);
+          }
+          session.provider = provider.name;
+          session.model = modelSpec.model;
+        }
+        persona = next;
+        session.persona = persona.name;
+        provider.setParameters(getParameters());
+        showModelInfo();
+      } catch (error) {
+        console.log(UIHelpers.formatError(error instanceof Error ? error.message : String(error)));
+      }
+    };
+
+    const switchModel = async (spec: string) => {
+      try {
+        const { provider: providerName, model } = parseModelSpec(config, spec);
+        if (providerName && providerName !== provider.name) {
+          provider = openProvider(resolveProvider(config, providerName), model);
+          provider.setParameters(getParameters());
+        } else {
+          provider.setModel(model);
+        }
+        session.provider = provider.name;
+        session.model = model;
+        showModelInfo();
+
+        // Only a hint: the cached list may be old, and some servers don't list every model
+        const known = await modelCache.get(provider.name);
+        if (known && !known.models.some(entry => entry.id === model)) {
+          UIHelpers.showWarningMessage(`${model} is not in the model list for ${provider.name} (see ai-chat models --refresh)`);
+        }
+      } catch (error) {
+        console.log(UIHelpers.formatError(error instanceof Error ? error.message : String(error)));
+      }
+    };
+
+    const setParameter = (name: string, value: string) => {
+      try {
+        parameterOverrides = applyParameterSetting(parameterOverrides, name, value);
+        provider.setParameters(getParameters());
+        showParameters();
+      } catch (error) {
+        console.log(UIHelpers.formatError(error instanceof Error ? error.message : String(error)));
+      }
+    };
+
+    // Reasoning behind the latest reply, from the assistant messages since the last user message
+    const latestReasoning = (): string => {
+      const parts: string[] = [];
+      for (let i = session.messages.length - 1; i >= 0 && session.messages[i].role !== 'user'; i--) {
+        const reasoning = session.messages[i].reasoning;
+        if (reasoning) parts.unshift(reasoning);
+      }
+      return parts.join('\n\n');
+    };
+
+    const setSchema = async (schemaPath: string) => {
+      try {
+        responseFormat = await loadSchema(schemaPath);
+        provider.setParameters(getParameters());
+        UIHelpers.showSuccessMessage(`Replies must now match the ${responseFormat.name} schema (turn off with /schema off)`);
+      } catch (error) {
+        console.log(UIHelpers.formatError(error instanceof Error ? error.message : String(error)));
+      }
+    };
+
+    const showParameters = () => {
+      // The schema and reasoning summaries have their own commands
+      const { responseFormat: _schema, reasoningSummary: _summary, ...parameters } = getParameters();
+      const capabilities = getModelCapabilities(provider.getModel(), config.modelCapabilities);
+      UIHelpers.showParameters(
+        provider.getModel(),
+        Object.fromEntries(Object.entries(parameters).map(([key, value]) => [parameterName(key as keyof ModelParameters), value])),
+        unsupportedParameters(parameters, capabilities).map(parameterName)
+      );
+    };
+
+    // Add a turn's tokens to the session and print them with the cost under the response
+    const showTurnUsage = (usage: TokenUsage, reasoningTokens: number) => {
+      if (usage.promptTokens === 0 && usage.completionTokens === 0) return;
+
+      const model = provider.getModel();
+      recordSessionUsage(session, model, usage);
+
+      const sessionCost = summarizeUsage([session], config.pricing)
+        .reduce((sum, summary) => sum + (summary.cost ?? 0), 0);
+      console.log(UIHelpers.formatUsageFooter({ ...usage, reasoningTokens }, calculateCost(usage, getModelPrice(model, config.pricing)), sessionCost));
+    };
+
+    const saveSessionAs = async (name?: string) => {
+      if (name) {
+        session.name = name;
+      }
+      if (await saveSession()) {
+        UIHelpers.showSuccessMessage(`Session saved as ${session.name || session.id}`);
+      }
+    };
+
     // Handle graceful shutdown
     const cleanup = async () => {
       if (isShuttingDown) return;
@@ -274,9 +908,8 @@ export async function startChat(options: ChatOptions): Promise<void> {
       try {
         clearInterval(heartbeat);
         
-        if (mcpClient.isConnected()) {
-          await mcpClient.disconnect();
-        }
+        // Also stops servers that are still reconnecting
+        await mcpManager.disconnectAll();
         
         exitSpinner.stop();
         UIHelpers.showSuccessMessage('Goodbye! Thanks for using AI Chat! ✨');
@@ -291,9 +924,21 @@ export async function startChat(options: ChatOptions): Promise<void> {
     };
 
     // Handle Ctrl+C gracefully
-    rl.on('SIGINT', cleanup);
+    const interrupt = () => {
+      const now = Date.now();
+      if (!turnController || now - lastInterruptAt < DOUBLE_INTERRUPT_WINDOW_MS) {
+        cleanup();
+        return;
+      }
+
+      lastInterruptAt = now;
+      turnController.abort();
+      console.log(`\n${UIHelpers.formatSystemMessage('Interrupting... press Ctrl+C again to exit')}`);
+    };
+
+    rl.on('SIGINT', interrupt);
     process.on('SIGTERM', cleanup);
-    process.on('SIGINT', cleanup);
+    process.on('SIGINT', interrupt);
 
     // Handle line input
     rl.on('line', (input: string) => {
@@ -320,9 +965,9 @@ export async function startChat(options: ChatOptions): Promise<void> {
         console.clear();
         UIHelpers.showWelcome();
         setTimeout(() => {
-          UIHelpers.showModelInfo(model);
-          if (mcpClient.isConnected()) {
-            UIHelpers.showAvailableTools(mcpClient.getTools());
+          showModelInfo();
+          if (mcpManager.isConnected()) {
+            UIHelpers.showAvailableTools(mcpManager.getTools());
           }
           startPrompt();
         }, 500);
@@ -335,14 +980,198 @@ export async function startChat(options: ChatOptions): Promise<void> {
         return;
       }
 
+      const [command, ...commandArgs] = trimmedInput.split(/\s+/);
+      const argument = commandArgs.join(' ');
+
+      if (command.toLowerCase() === '/persona') {
+        if (argument) {
+          switchPersona(argument);
+        } else {
+          UIHelpers.showPersonas(listPersonas(config), persona.name);
+        }
+        startPrompt();
+        return;
+      }
+
+      if (command.toLowerCase() === '/model') {
+        if (!argument) {
+          showModelInfo();
+          startPrompt();
+          return;
+        }
+        isProcessing = true;
+        switchModel(argument).finally(() => {
+          isProcessing = false;
+          startPrompt();
+        });
+        return;
+      }
+
+      if (command.toLowerCase() === '/set') {
+        const [name, ...valueParts] = commandArgs;
+        if (!name) {
+          showParameters();
+        } else if (valueParts.length === 0) {
+          UIHelpers.showWarningMessage('Usage: /set <parameter> <value|default>');
+        } else {
+          setParameter(name, valueParts.join(' '));
+        }
+        startPrompt();
+        return;
+      }
+
+      if (command.toLowerCase() === '/thinking') {
+        const setting = argument.toLowerCase();
+        if (setting === 'on' || setting === 'off') {
+          showThinking = setting === 'on';
+          provider.setParameters(getParameters());
+          UIHelpers.showSuccessMessage(showThinking ? 'Showing reasoning summaries' : 'Hiding reasoning summaries');
+        } else if (!argument) {
+          UIHelpers.showThinking(latestReasoning());
+        } else {
+          UIHelpers.showWarningMessage('Usage: /thinking [on|off]');
+        }
+        startPrompt();
+        return;
+      }
+
+      if (command.toLowerCase() === '/schema') {
+        if (!argument) {
+          console.log(UIHelpers.formatSystemMessage(responseFormat
+            ? `Replies must match the ${responseFormat.name} schema`
+            : 'No schema set. Use /schema <file> to require JSON replies matching a JSON Schema'));
+          startPrompt();
+          return;
+        }
+        if (RESET_SCHEMA_VALUES.includes(argument.toLowerCase())) {
+          responseFormat = undefined;
+          provider.setParameters(getParameters());
+          UIHelpers.showSuccessMessage('Schema turned off');
+          startPrompt();
+          return;
+        }
+        isProcessing = true;
+        setSchema(argument).finally(() => {
+          isProcessing = false;
+          startPrompt();
+        });
+        return;
+      }
+
+      if (command.toLowerCase() === '/attach') {
+        if (!argument) {
+          UIHelpers.showAttachments(pendingAttachments);
+          startPrompt();
+          return;
+        }
+        if (argument.toLowerCase() === 'clear') {
+          pendingAttachments = [];
+          UIHelpers.showSuccessMessage('Cleared attachments');
+          startPrompt();
+          return;
+        }
+        isProcessing = true;
+        attachFile(argument).finally(() => {
+          isProcessing = false;
+          startPrompt();
+        });
+        return;
+      }
+
+      if (command.toLowerCase() === '/servers') {
+        UIHelpers.showServers(mcpManager.getHealth());
+        startPrompt();
+        return;
+      }
+
+      if (command.toLowerCase() === '/resources') {
+        isProcessing = true;
+        browseResources(argument).finally(() => {
+          isProcessing = false;
+          startPrompt();
+        });
+        return;
+      }
+
+      if (command.toLowerCase() === '/prompts') {
+        UIHelpers.showPrompts(mcpManager.getPrompts().map(promptCommand => ({
+          command: promptCommandName(promptCommand),
+          description: promptCommand.prompt.description,
+          arguments: promptCommand.prompt.arguments
+        })));
+        startPrompt();
+        return;
+      }
+
+      if (command.toLowerCase() === '/usage') {
+        UIHelpers.showUsage('Session Usage', summarizeUsage([session], config.pricing));
+        startPrompt();
+        return;
+      }
+
+      if (command.toLowerCase() === '/context') {
+        isProcessing = true;
+        showContextUsage().finally(() => {
+          isProcessing = false;
+          startPrompt();
+        });
+        return;
+      }
+
+      if (command.toLowerCase() === '/sessions') {
+        isProcessing = true;
+        listSessions().finally(() => {
+          isProcessing = false;
+          startPrompt();
+        });
+        return;
+      }
+
+      if (command.toLowerCase() === '/load') {
+        if (!argument) {
+          UIHelpers.showWarningMessage('Usage: /load <id>');
+          startPrompt();
+          return;
+        }
+        isProcessing = true;
+        loadSession(argument).finally(() => {
+          isProcessing = false;
+          startPrompt();
+        });
+        return;
+      }
+
+      if (command.toLowerCase() === '/save') {
+        isProcessing = true;
+        saveSessionAs(argument || undefined).finally(() => {
+          isProcessing = false;
+          startPrompt();
+        });
+        return;
+      }
+
+      // Prompts from the connected servers, as /<server>:<prompt>
+      const promptCommand = findPromptCommand(command, mcpManager.getPrompts());
+      if (promptCommand) {
+        runPrompt(promptCommand, trimmedInput.slice(command.length).trim());
+        return;
+      }
+
       // Process regular message
-      processMessage(trimmedInput);
+      sendMessage(trimmedInput);
     });
 
     // Start prompting for input
     const startPrompt = () => {
       try {
         if (!isShuttingDown && !isProcessing) {
+          for (const show of pendingNotices.splice(0)) {
+            show();
+          }
+          // Spinners put the terminal back in line mode; Tab completion needs raw input
+          if (process.stdin.isTTY) {
+            process.stdin.setRawMode(true);
+          }
           rl.prompt();
         }
       } catch (error) {
@@ -356,26 +1185,29 @@ export async function startChat(options: ChatOptions): Promise<void> {
   }
 }
 
-async function loadConfig(configPath?: string): Promise<{
-  openai: { apiKey?: string; model?: string };
-  mcpServers: MCPServerConfig[];
-}> {
-  // Default configuration
-  const defaultConfig = {
-    openai: {},
-    mcpServers: []
-  };
-
-  if (!configPath) {
-    return defaultConfig;
-  }
-
+/**
+ * The provider and model a saved session used. When its provider is no longer
+ * configured, the session carries on with the default provider and its model.
+ */
+function savedProvider(config: AppConfig, saved: ChatSession): { resolved: ResolvedProvider; model: string } {
   try {
-    const fs = await import('fs');
-    const configFile = await fs.promises.readFile(configPath, 'utf-8');
-    return { ...defaultConfig, ...JSON.parse(configFile) };
+    return { resolved: resolveProvider(config, saved.provider), model: saved.model };
   } catch (error) {
-    console.warn(chalk.yellow(`Warning: Could not load config file ${configPath}, using defaults`));
-    return defaultConfig;
+    const resolved = resolveProvider(config);
+    const model = resolveModel(config, undefined, resolved.config.model);
+    UIHelpers.showWarningMessage(`${error instanceof Error ? error.message : error}; continuing ${saved.name || saved.id} with ${resolved.name}:${model}`);
+    return { resolved, model };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Configs for the MCP servers a saved session used, warning about any that
+ * have since been removed from the config file
+ */
+function savedServers(config: AppConfig, saved: ChatSession): MCPServerConfig[] {
+  const { servers, missing } = fromSessionServers(saved.servers, config.mcpServers);
+  if (missing.length > 0) {
+    UIHelpers.showWarningMessage(`MCP server${missing.length === 1 ? '' : 's'} ${missing.join(', ')} from ${saved.name || saved.id} ${missing.length === 1 ? 'is' : 'are'} no longer configured`);
+  }
+  return servers;
+}
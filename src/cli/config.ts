@@ -0,0 +1,50 @@
+import { config } from 'dotenv';
+import chalk from 'chalk';
+import type { AppConfig, MCPServerConfig } from '../types/index.js';
+
+// Load environment variables from .env file
+config();
+
+export function parsePositiveInt(value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Pick the model (prioritize command line, then the provider's default, then env var, then config, then default)
+ */
+export function resolveModel(appConfig: AppConfig, cliModel?: string, providerModel?: string): string {
+  return cliModel || providerModel || process.env.OPENAI_MODEL || appConfig.openai.model || process.env.DEFAULT_MODEL || 'gpt-4o';
+}
+
+export async function loadConfig(configPath?: string): Promise<AppConfig> {
+  // Default configuration
+  const defaultConfig: AppConfig = {
+    openai: {},
+    mcpServers: []
+  };
+
+  if (!configPath) {
+    return defaultConfig;
+  }
+
+  try {
+    const fs = await import('fs');
+    const configFile = await fs.promises.readFile(configPath, 'utf-8');
+    return { ...defaultConfig, ...JSON.parse(configFile) };
+  } catch (error) {
+    console.warn(chalk.yellow(`Warning: Could not load config file ${configPath}, using defaults`));
+    return defaultConfig;
+  }
+}
+
+/**
+ * The server given with --server: an http(s) URL is a Streamable HTTP server,
+ * anything else the command of a stdio server
+ */
+export function serverFromFlag(server: string): MCPServerConfig {
+  return /^https?:\/\//i.test(server)
+    ? { name: 'custom', transport: 'http', url: server }
+    : { name: 'custom', command: server, args: [] };
+}
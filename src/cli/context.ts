@@ -0,0 +1,290 @@
+import type { ChatMessage, ChatProvider, ContextPolicy, MCPTool } from '../types/index.js';
+import { contentImages, contentText } from '../providers/content.js';
+
+export const DEFAULT_CONTEXT_LIMIT = 128000;
+export const DEFAULT_RESERVE_TOKENS = 4096;
+export const DEFAULT_TOOL_RESULT_MAX_CHARS = 2000;
+
+// Context window sizes by model name prefix; the longest matching prefix wins
+const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4': 8192,
+  'gpt-4-32k': 32768,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-5': 400000,
+  'o1': 200000,
+  'o1-mini': 128000,
+  'o3': 200000,
+  'o3-mini': 200000,
+  'o4-mini': 200000,
+  'claude': 200000
+};
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+// Rough per-message cost of role and framing tokens
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Rough cost of an attached image; the real figure depends on its size
+const IMAGE_TOKENS = 1000;
+
+export interface ContextOptions {
+  policy?: ContextPolicy;
+  // Overrides the model's context window
+  maxTokens?: number;
+  // Tokens kept free for the model's reply
+  reserveTokens?: number;
+  toolResultMaxChars?: number;
+  contextLimits?: Record<string, number>;
+}
+
+// Sent with every request next to the history, so it counts against the same window
+export interface RequestFraming {
+  systemPrompt?: string;
+  tools?: MCPTool[];
+}
+
+export interface ContextUsage {
+  model: string;
+  usedTokens: number;
+  // Part of usedTokens taken by the system prompt and tool definitions
+  framingTokens: number;
+  limit: number;
+  budget: number;
+  messages: number;
+  policy: ContextPolicy;
+}
+
+export interface FitResult {
+  changed: boolean;
+  droppedMessages: number;
+  truncatedToolResults: number;
+  summarizedMessages: number;
+}
+
+export type Summarizer = (messages: ChatMessage[]) => Promise<string>;
+
+/**
+ * Estimate tokens for a piece of text. Uses ~4 characters per token, which is
+ * close enough for English and code to keep requests under the limit.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(contentText(message.content || ''));
+  tokens += contentImages(message.content).length * IMAGE_TOKENS;
+  for (const call of message.toolCalls || []) {
+    tokens += estimateTokens(call.name) + estimateTokens(call.arguments);
+  }
+  return tokens;
+}
+
+export function estimateConversationTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+export function estimateFramingTokens({ systemPrompt, tools = [] }: RequestFraming): number {
+  const promptTokens = systemPrompt ? MESSAGE_OVERHEAD_TOKENS + estimateTokens(systemPrompt) : 0;
+  return promptTokens + (tools.length > 0 ? estimateTokens(JSON.stringify(tools)) : 0);
+}
+
+export function getContextLimit(model: string, overrides: Record<string, number> = {}): number {
+  const limits = { ...MODEL_CONTEXT_LIMITS, ...overrides };
+  const match = Object.keys(limits)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? limits[match] : DEFAULT_CONTEXT_LIMIT;
+}
+
+/**
+ * Keeps the conversation inside the model's context window by dropping,
+ * truncating or summarizing older turns, depending on the configured policy.
+ */
+export class ContextManager {
+  private options: ContextOptions;
+
+  constructor(options: ContextOptions = {}, private summarizer?: Summarizer) {
+    this.options = options;
+  }
+
+  getPolicy(): ContextPolicy {
+    return this.options.policy || 'truncate-tool-results';
+  }
+
+  getUsage(messages: ChatMessage[], model: string, framing: RequestFraming = {}): ContextUsage {
+    const limit = this.options.maxTokens || getContextLimit(model, this.options.contextLimits);
+    const framingTokens = estimateFramingTokens(framing);
+    return {
+      model,
+      usedTokens: framingTokens + estimateConversationTokens(messages),
+      framingTokens,
+      limit,
+      budget: this.getBudget(model),
+      messages: messages.length,
+      policy: this.getPolicy()
+    };
+  }
+
+  /**
+   * Shrink `messages` in place until it fits the model's budget, less what
+   * the system prompt and tool definitions take. The latest turn is never removed.
+   */
+  async fit(messages: ChatMessage[], model: string, framing: RequestFraming = {}): Promise<FitResult> {
+    const result: FitResult = {
+      changed: false,
+      droppedMessages: 0,
+      truncatedToolResults: 0,
+      summarizedMessages: 0
+    };
+    const budget = Math.max(0, this.getBudget(model) - estimateFramingTokens(framing));
+
+    if (estimateConversationTokens(messages) <= budget) {
+      return result;
+    }
+
+    const policy = this.getPolicy();
+
+    if (policy === 'summarize' && this.summarizer) {
+      try {
+        result.summarizedMessages = await this.summarizeOldest(messages, budget);
+      } catch (error) {
+        console.error('Failed to summarize conversation, dropping old turns instead:', error);
+      }
+    } else if (policy === 'truncate-tool-results') {
+      result.truncatedToolResults = this.truncateToolResults(messages);
+    }
+
+    // Whatever the policy, fall back to dropping turns if we are still over
+    if (estimateConversationTokens(messages) > budget) {
+      result.droppedMessages = this.dropOldest(messages, budget);
+    }
+
+    result.changed = result.droppedMessages > 0
+      || result.truncatedToolResults > 0
+      || result.summarizedMessages > 0;
+    return result;
+  }
+
+  private getBudget(model: string): number {
+    const limit = this.options.maxTokens || getContextLimit(model, this.options.contextLimits);
+    return Math.max(0, limit - (this.options.reserveTokens ?? DEFAULT_RESERVE_TOKENS));
+  }
+
+  private truncateToolResults(messages: ChatMessage[]): number {
+    const maxChars = this.options.toolResultMaxChars ?? DEFAULT_TOOL_RESULT_MAX_CHARS;
+    const lastTurnStart = turnBoundaries(messages).pop() ?? messages.length;
+    let truncated = 0;
+
+    for (let i = 0; i < lastTurnStart; i++) {
+      const message = messages[i];
+      if (message.role === 'tool' && typeof message.content === 'string' && message.content.length > maxChars) {
+        const removed = message.content.length - maxChars;
+        message.content = `${message.content.slice(0, maxChars)}\n[... ${removed} characters truncated]`;
+        truncated++;
+      }
+    }
+
+    return truncated;
+  }
+
+  private dropOldest(messages: ChatMessage[], budget: number): number {
+    let dropped = 0;
+
+    while (estimateConversationTokens(messages) > budget) {
+      const boundaries = turnBoundaries(messages);
+      if (boundaries.length < 2) break;
+
+      // Remove the oldest whole turn so tool calls stay paired with their results
+      const count = boundaries[1] - boundaries[0];
+      messages.splice(boundaries[0], count);
+      dropped += count;
+    }
+
+    return dropped;
+  }
+
+  private async summarizeOldest(messages: ChatMessage[], budget: number): Promise<number> {
+    const boundaries = turnBoundaries(messages);
+    if (boundaries.length < 2) return 0;
+
+    // Summarize the oldest turns until the rest fits in half the budget, leaving room to grow
+    const start = boundaries[0];
+    let end = boundaries[1];
+    for (let i = 1; i < boundaries.length - 1; i++) {
+      if (estimateConversationTokens(messages.slice(end)) <= budget / 2) break;
+      end = boundaries[i + 1];
+    }
+
+    // Fold a previous summary into the new one rather than stacking them
+    const previous = messages[start - 1];
+    const from = previous?.role === 'system' && contentText(previous.content).startsWith(SUMMARY_PREFIX) ? start - 1 : start;
+
+    const older = messages.slice(from, end);
+    const summary = await this.summarizer!(older);
+
+    messages.splice(from, end - from, {
+      role: 'system',
+      content: `${SUMMARY_PREFIX}\n${summary}`,
+      timestamp: new Date()
+    });
+
+    return older.length;
+  }
+}
+
+/**
+ * Index of every user message, each of which starts a turn
+ */
+function turnBoundaries(messages: ChatMessage[]): number[] {
+  const boundaries: number[] = [];
+  messages.forEach((message, index) => {
+    if (message.role === 'user') boundaries.push(index);
+  });
+  return boundaries;
+}
+
+/**
+ * Summarize older turns with the chat's provider. The summary is prose, so a
+ * reply schema set with /schema or --schema is left out of that one request.
+ */
+export async function summarizeHistory(provider: ChatProvider, messages: ChatMessage[]): Promise<string> {
+  const parameters = provider.getParameters();
+  if (!parameters.responseFormat) {
+    return provider.chat(buildSummaryPrompt(messages));
+  }
+
+  const { responseFormat: _schema, ...withoutSchema } = parameters;
+  provider.setParameters(withoutSchema);
+  try {
+    return await provider.chat(buildSummaryPrompt(messages));
+  } finally {
+    provider.setParameters(parameters);
+  }
+}
+
+/**
+ * Build the prompt used to summarize older turns
+ */
+export function buildSummaryPrompt(messages: ChatMessage[]): ChatMessage[] {
+  const transcript = messages.map(message => {
+    if (message.role === 'tool') {
+      return `[tool result] ${contentText(message.content)}`;
+    }
+    const calls = (message.toolCalls || []).map(call => ` [called ${call.name}(${call.arguments})]`).join('');
+    return `${message.role}: ${contentText(message.content)}${calls}`;
+  }).join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content: 'Summarize the conversation below for your own future reference. Keep facts, decisions, file paths, names and open tasks. Be concise.'
+    },
+    { role: 'user', content: transcript }
+  ];
+}
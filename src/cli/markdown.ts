@@ -206,6 +206,286 @@ export class MarkdownRenderer {
   }
 }
 
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^#{1,6}\s/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+type BlockKind = 'text' | 'list';
+
+interface MarkdownBlock {
+  kind: BlockKind;
+  lines: string[];
+}
+
+/**
+ * Renders markdown while it is still streaming in. Complete blocks (paragraphs,
+ * headings, list items, fenced code) are rendered once and committed; on a TTY
+ * the unfinished tail is redrawn in place as more text arrives, until it would
+ * fill the screen and its finished lines are committed. Other outputs only ever
+ * receive committed blocks, so nothing needs to be erased.
+ */
+export class StreamingMarkdownRenderer {
+  private pending = '';
+  private lastKind: BlockKind | null = null;
+  private tail = '';
+  private tailRows = 0;
+  private continued = false;
+  private column: number;
+  private readonly live: boolean;
+
+  /**
+   * @param output Stream to render into
+   * @param startColumn Cursor column the output starts at (e.g. after a prefix)
+   */
+  constructor(private readonly output: NodeJS.WriteStream = process.stdout, startColumn: number = 0) {
+    this.live = Boolean(output.isTTY);
+    this.column = startColumn;
+    MarkdownRenderer.initialize();
+  }
+
+  /**
+   * Add streamed text, committing any blocks it completes
+   */
+  write(chunk: string): void {
+    this.pending += chunk;
+
+    const { blocks, rest } = splitBlocks(this.pending, false);
+    this.pending = rest;
+
+    if (blocks.length > 0) {
+      this.clearTail();
+      for (const block of blocks) {
+        this.commit(block);
+      }
+    }
+
+    this.drawTail();
+  }
+
+  /**
+   * Commit whatever is left once the stream is finished
+   */
+  end(): void {
+    const { blocks } = splitBlocks(this.pending, true);
+    this.pending = '';
+
+    this.clearTail();
+    for (const block of blocks) {
+      this.commit(block);
+    }
+  }
+
+  private commit(block: MarkdownBlock): void {
+    const rendered = renderBlock(block);
+    if (!rendered) return;
+
+    const text = this.separator(block.kind) + rendered;
+    this.output.write(text);
+    this.column = endColumn(text, this.column, this.columns());
+    this.lastKind = block.kind;
+    this.continued = false;
+  }
+
+  private drawTail(): void {
+    if (!this.live) return;
+
+    let tail = this.renderTail();
+    if (tail === this.tail) return;
+
+    // Rows that have scrolled off the screen can't be erased, so a tail that
+    // would fill the screen has its finished lines committed instead
+    if (countRows(tail, this.column, this.columns()) >= this.rows()) {
+      this.clearTail();
+      this.commitFinishedLines();
+      tail = this.renderTail();
+      if (countRows(tail, this.column, this.columns()) >= this.rows()) {
+        // A single line taller than the screen; show it once it is complete
+        return;
+      }
+    }
+
+    this.clearTail();
+    this.output.write(tail);
+    this.tail = tail;
+    this.tailRows = countRows(tail, this.column, this.columns());
+  }
+
+  private renderTail(): string {
+    const { blocks } = splitBlocks(this.pending, true);
+    let first = true;
+    let previous = this.lastKind;
+    return blocks.map(block => {
+      const text = (first ? this.separator(block.kind) : separator(previous, block.kind)) + renderBlock(block);
+      first = false;
+      previous = block.kind;
+      return text;
+    }).join('');
+  }
+
+  /**
+   * Commit the complete lines of the unfinished block, keeping the last line
+   * pending. An open code fence is carried over so the rest still renders as code.
+   */
+  private commitFinishedLines(): void {
+    const end = this.pending.lastIndexOf('\n');
+    if (end === -1) return;
+
+    const finished = this.pending.slice(0, end);
+    let fence: string | null = null;
+    for (const line of finished.split('\n')) {
+      if (FENCE_PATTERN.test(line)) {
+        fence = fence === null ? line : null;
+      }
+    }
+
+    for (const block of splitBlocks(finished, true).blocks) {
+      this.commit(block);
+    }
+
+    this.pending = (fence !== null ? `${fence}\n` : '') + this.pending.slice(end + 1);
+    this.continued = true;
+  }
+
+  private clearTail(): void {
+    if (!this.live || !this.tail) return;
+
+    // Go back to where the tail started and erase everything after it
+    const up = this.tailRows > 1 ? `\x1b[${this.tailRows - 1}A` : '';
+    const right = this.column > 0 ? `\x1b[${this.column}C` : '';
+    this.output.write(`\r${up}${right}\x1b[J`);
+
+    this.tail = '';
+    this.tailRows = 0;
+  }
+
+  /**
+   * What goes before the next block: a single line break when it carries on
+   * a block that was committed in pieces
+   */
+  private separator(next: BlockKind): string {
+    return this.continued ? '\n' : separator(this.lastKind, next);
+  }
+
+  private rows(): number {
+    return this.output.rows || 24;
+  }
+
+  private columns(): number {
+    return this.output.columns || 80;
+  }
+}
+
+function separator(previous: BlockKind | null, next: BlockKind): string {
+  if (previous === null) return '';
+  return previous === 'list' && next === 'list' ? '\n' : '\n\n';
+}
+
+/**
+ * Split markdown into blocks. Unless `final` is set, the trailing block is
+ * returned as `rest` because more text may still be added to it.
+ */
+function splitBlocks(text: string, final: boolean): { blocks: MarkdownBlock[]; rest: string } {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.split('\n');
+  // The last line is incomplete until a newline arrives
+  if (!final) {
+    lines.pop();
+  }
+
+  let current: MarkdownBlock | null = null;
+  let currentStart = 0;
+  let inFence = false;
+  let offset = 0;
+
+  const flush = () => {
+    if (current && current.lines.length > 0) {
+      blocks.push(current);
+    }
+    current = null;
+  };
+
+  for (const line of lines) {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    if (inFence) {
+      current!.lines.push(line);
+      if (FENCE_PATTERN.test(line)) {
+        inFence = false;
+        flush();
+        currentStart = offset;
+      }
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      flush();
+      current = { kind: 'text', lines: [line] };
+      currentStart = lineStart;
+      inFence = true;
+    } else if (line.trim() === '') {
+      flush();
+      currentStart = offset;
+    } else if (HEADING_PATTERN.test(line)) {
+      flush();
+      blocks.push({ kind: 'text', lines: [line] });
+      currentStart = offset;
+    } else if (LIST_ITEM_PATTERN.test(line)) {
+      flush();
+      current = { kind: 'list', lines: [line] };
+      currentStart = lineStart;
+    } else {
+      if (!current) {
+        current = { kind: 'text', lines: [] };
+        currentStart = lineStart;
+      }
+      current.lines.push(line);
+    }
+  }
+
+  if (final) {
+    flush();
+    return { blocks, rest: '' };
+  }
+
+  return { blocks, rest: text.slice(currentStart) };
+}
+
+function renderBlock(block: MarkdownBlock): string {
+  if (block.kind === 'list') {
+    // Render items one at a time, keeping the original bullet or number
+    const match = block.lines[0].match(LIST_ITEM_PATTERN);
+    if (match) {
+      const [, indent, marker, firstLine] = match;
+      const content = [firstLine, ...block.lines.slice(1).map(line => line.trim())].join('\n');
+      const bullet = /\d/.test(marker) ? marker : '•';
+      return `${indent}${bullet} ${chalk.white(MarkdownRenderer.render(content).trim())}`;
+    }
+  }
+
+  return MarkdownRenderer.render(block.lines.join('\n')).replace(/^\n+|\n+$/g, '');
+}
+
+/**
+ * Terminal rows taken up by text written from the given column, including wrapping
+ */
+export function countRows(text: string, startColumn: number, columns: number): number {
+  return text.split('\n').reduce((rows, line, index) => {
+    const width = line.replace(ANSI_PATTERN, '').length + (index === 0 ? startColumn : 0);
+    return rows + Math.max(1, Math.ceil(width / columns));
+  }, 0);
+}
+
+/**
+ * Cursor column after writing text from the given column
+ */
+function endColumn(text: string, startColumn: number, columns: number): number {
+  const lines = text.split('\n');
+  const last = lines[lines.length - 1].replace(ANSI_PATTERN, '').length;
+  return (lines.length === 1 ? startColumn + last : last) % columns;
+}
+
 /**
  * Basic syntax highlighting for common languages
  * @param code The code to highlight
@@ -0,0 +1,40 @@
+import { UIHelpers } from './ui.js';
+import { loadConfig, resolveModel } from './config.js';
+import { createProvider, resolveProvider } from '../providers/factory.js';
+import { ModelCache, annotateModels, getModelList, isChatModel } from './models.js';
+import type { ModelsOptions } from '../types/index.js';
+
+/**
+ * Print the models the provider offers, with their context size and capabilities
+ */
+export async function showModelList(options: ModelsOptions): Promise<void> {
+  const config = await loadConfig(options.config);
+  const resolved = resolveProvider(config, options.provider);
+  const model = resolveModel(config, undefined, resolved.config.model);
+  const provider = createProvider(resolved, model, { modelCapabilities: config.modelCapabilities });
+
+  const spinner = options.json ? undefined : UIHelpers.createSpinner(`Fetching models from ${provider.name}...`);
+  spinner?.start();
+  let list;
+  try {
+    list = await getModelList(provider, new ModelCache(config.models), options.refresh);
+  } finally {
+    spinner?.stop();
+  }
+
+  const models = annotateModels(
+    options.all ? list.models : list.models.filter(entry => isChatModel(entry.id)),
+    config
+  );
+
+  if (options.json) {
+    process.stdout.write(JSON.stringify({ provider: provider.name, fetchedAt: list.fetchedAt, models }, null, 2) + '\n');
+    return;
+  }
+
+  UIHelpers.showModels(provider.name, models, {
+    current: model,
+    fetchedAt: list.cached ? list.fetchedAt : undefined,
+    hidden: list.models.length - models.length
+  });
+}
@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { AppConfig, ChatProvider, ModelInfo } from '../types/index.js';
+import { getModelCapabilities } from '../providers/capabilities.js';
+import { getContextLimit } from './context.js';
+
+export const DEFAULT_MODEL_CACHE_TTL_HOURS = 24;
+
+// Models that don't chat: embeddings, speech, images, moderation and legacy completions
+const NON_CHAT_MODEL_PATTERN = /(^|[-:/])(embed|embedding|whisper|tts|dall-e|gpt-image|moderation|davinci|babbage|transcribe)/;
+
+export interface CachedModelList {
+  fetchedAt: string;
+  models: ModelInfo[];
+}
+
+export interface ModelList extends CachedModelList {
+  // Served from the cache rather than fetched just now
+  cached: boolean;
+}
+
+export interface AnnotatedModel extends ModelInfo {
+  contextLimit: number;
+  tools: boolean;
+  vision: boolean;
+}
+
+function defaultCacheFile(): string {
+  return path.join(os.homedir(), '.ai-chat', 'models.json');
+}
+
+/**
+ * Model lists per provider, kept in one JSON file so `ai-chat models` and
+ * /model don't have to call the models endpoint every time.
+ */
+export class ModelCache {
+  private filePath: string;
+  private ttlMs: number;
+
+  constructor(options: AppConfig['models'] = {}) {
+    this.filePath = options.cacheFile || defaultCacheFile();
+    this.ttlMs = (options.cacheTtlHours ?? DEFAULT_MODEL_CACHE_TTL_HOURS) * 60 * 60 * 1000;
+  }
+
+  /**
+   * The cached list for a provider, however old
+   */
+  async get(provider: string): Promise<CachedModelList | undefined> {
+    return (await this.read())[provider];
+  }
+
+  isFresh(list: CachedModelList): boolean {
+    return Date.now() - Date.parse(list.fetchedAt) < this.ttlMs;
+  }
+
+  async set(provider: string, models: ModelInfo[]): Promise<CachedModelList> {
+    const entries = await this.read();
+    entries[provider] = { fetchedAt: new Date().toISOString(), models };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(entries, null, 2), 'utf-8');
+    return entries[provider];
+  }
+
+  private async read(): Promise<Record<string, CachedModelList>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch {
+      // Missing or unreadable; the list is fetched again
+      return {};
+    }
+  }
+}
+
+/**
+ * The provider's models, from the cache while it is fresh
+ */
+export async function getModelList(provider: ChatProvider, cache: ModelCache, refresh = false): Promise<ModelList> {
+  const cachedList = refresh ? undefined : await cache.get(provider.name);
+  if (cachedList && cache.isFresh(cachedList)) {
+    return { ...cachedList, cached: true };
+  }
+
+  const models = await provider.listModels();
+  models.sort((a, b) => a.id.localeCompare(b.id));
+  return { ...await cache.set(provider.name, models), cached: false };
+}
+
+export function isChatModel(id: string): boolean {
+  return !NON_CHAT_MODEL_PATTERN.test(id);
+}
+
+/**
+ * Add the context size and capabilities from the built-in tables (and the
+ * config's overrides) to each model
+ */
+export function annotateModels(models: ModelInfo[], appConfig: AppConfig): AnnotatedModel[] {
+  return models.map(model => {
+    const capabilities = getModelCapabilities(model.id, appConfig.modelCapabilities);
+    return {
+      ...model,
+      contextLimit: getContextLimit(model.id, appConfig.context?.contextLimits),
+      tools: capabilities.tools,
+      vision: capabilities.vision
+    };
+  });
+}
@@ -0,0 +1,104 @@
+import type { ModelParameterFlags, ModelParameters, ReasoningEffort } from '../types/index.js';
+
+const REASONING_EFFORTS: ReasoningEffort[] = ['minimal', 'low', 'medium', 'high'];
+
+interface ParameterSpec {
+  key: keyof ModelParameters;
+  parse: (value: string) => ModelParameters[keyof ModelParameters];
+}
+
+// Names accepted by /set, in the API's spelling
+const PARAMETER_SPECS: Record<string, ParameterSpec> = {
+  temperature: { key: 'temperature', parse: value => parseNumber('temperature', value, 0, 2) },
+  top_p: { key: 'topP', parse: value => parseNumber('top_p', value, 0, 1) },
+  max_tokens: { key: 'maxTokens', parse: value => parseInteger('max_tokens', value, 1) },
+  max_completion_tokens: { key: 'maxTokens', parse: value => parseInteger('max_completion_tokens', value, 1) },
+  seed: { key: 'seed', parse: value => parseInteger('seed', value) },
+  stop: { key: 'stop', parse: value => value.split(',').map(sequence => sequence.replace(/\\n/g, '\n')) },
+  presence_penalty: { key: 'presencePenalty', parse: value => parseNumber('presence_penalty', value, -2, 2) },
+  frequency_penalty: { key: 'frequencyPenalty', parse: value => parseNumber('frequency_penalty', value, -2, 2) },
+  reasoning_effort: { key: 'reasoningEffort', parse: parseReasoningEffort }
+};
+
+// Values that clear a parameter with /set
+const RESET_VALUES = ['default', 'off', 'none', 'unset'];
+
+export const PARAMETER_NAMES = Object.keys(PARAMETER_SPECS).filter(name => name !== 'max_completion_tokens');
+
+/**
+ * Parse the model parameter switches from the command line
+ */
+export function parseParameterFlags(flags: ModelParameterFlags): ModelParameters {
+  return withoutUndefined({
+    temperature: flags.temperature !== undefined ? parseNumber('--temperature', flags.temperature, 0, 2) : undefined,
+    topP: flags.topP !== undefined ? parseNumber('--top-p', flags.topP, 0, 1) : undefined,
+    maxTokens: flags.maxTokens !== undefined ? parseInteger('--max-tokens', flags.maxTokens, 1) : undefined,
+    seed: flags.seed !== undefined ? parseInteger('--seed', flags.seed) : undefined,
+    stop: flags.stop,
+    presencePenalty: flags.presencePenalty !== undefined ? parseNumber('--presence-penalty', flags.presencePenalty, -2, 2) : undefined,
+    frequencyPenalty: flags.frequencyPenalty !== undefined ? parseNumber('--frequency-penalty', flags.frequencyPenalty, -2, 2) : undefined,
+    reasoningEffort: flags.reasoningEffort !== undefined ? parseReasoningEffort(flags.reasoningEffort) : undefined
+  });
+}
+
+/**
+ * Apply a `/set <name> <value>` command to a set of overrides. A value of
+ * `default` (or `off`) removes the override.
+ * @returns The updated overrides
+ */
+export function applyParameterSetting(overrides: ModelParameters, name: string, value: string): ModelParameters {
+  const spec = PARAMETER_SPECS[name.toLowerCase().replace(/-/g, '_')];
+  if (!spec) {
+    throw new Error(`Unknown parameter: ${name}. Available parameters: ${PARAMETER_NAMES.join(', ')}`);
+  }
+
+  const updated = { ...overrides };
+  if (RESET_VALUES.includes(value.toLowerCase())) {
+    delete updated[spec.key];
+  } else {
+    (updated as Record<string, unknown>)[spec.key] = spec.parse(value);
+  }
+  return updated;
+}
+
+/**
+ * Combine parameter layers; later layers win and unset values don't override
+ */
+export function mergeParameters(...layers: Array<ModelParameters | undefined>): ModelParameters {
+  return Object.assign({}, ...layers.map(layer => withoutUndefined(layer || {})));
+}
+
+/**
+ * The /set name for a parameter key
+ */
+export function parameterName(key: keyof ModelParameters): string {
+  return key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
+
+function withoutUndefined(parameters: ModelParameters): ModelParameters {
+  return Object.fromEntries(Object.entries(parameters).filter(([, value]) => value !== undefined));
+}
+
+function parseNumber(name: string, value: string, min: number, max: number): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || Number.isNaN(parsed) || parsed < min || parsed > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+function parseInteger(name: string, value: string, min?: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || (min !== undefined && parsed < min)) {
+    throw new Error(`${name} must be a whole number${min !== undefined ? ` of at least ${min}` : ''}`);
+  }
+  return parsed;
+}
+
+function parseReasoningEffort(value: string): ReasoningEffort {
+  const effort = value.toLowerCase() as ReasoningEffort;
+  if (!REASONING_EFFORTS.includes(effort)) {
+    throw new Error(`reasoning_effort must be one of ${REASONING_EFFORTS.join(', ')}`);
+  }
+  return effort;
+}
@@ -0,0 +1,112 @@
+import * as fs from 'fs/promises';
+import type { AppConfig, MCPTool, PermissionMode, ToolPermission } from '../types/index.js';
+import { wildcardToRegExp } from './wildcard.js';
+
+// Applied when neither the config nor the user has decided for a tool
+const DEFAULT_RULES: Record<string, ToolPermission> = {
+  'read_*': 'allow',
+  'list_*': 'allow',
+  'search_*': 'allow',
+  'get_*': 'allow',
+  'find_*': 'allow',
+  'recall_*': 'allow',
+  'open_nodes': 'allow',
+  'directory_tree': 'allow',
+  '*': 'ask'
+};
+
+const READ_ONLY_NAME_PATTERN = /^(read|list|search|get|find|recall|open)_|^directory_tree$/;
+
+/**
+ * Decides whether a tool call may run. Rules come from `permissions` in the
+ * config, keyed by server name (or `*` for every server) and tool name pattern.
+ */
+export class ToolPermissions {
+  private rules: Record<string, Record<string, ToolPermission>>;
+  private mode: PermissionMode;
+
+  /**
+   * @param config The loaded app config
+   * @param mode Overrides `permissions.mode` from the config (e.g. from --yolo)
+   * @param configPath Where "always" decisions are saved, if anywhere
+   */
+  constructor(config: AppConfig, mode?: PermissionMode, private configPath?: string) {
+    this.rules = structuredClone(config.permissions?.rules || {});
+    this.mode = mode || config.permissions?.mode || 'ask';
+  }
+
+  getMode(): PermissionMode {
+    return this.mode;
+  }
+
+  check(serverName: string, toolName: string, tool?: MCPTool): ToolPermission {
+    if (this.mode === 'yolo') {
+      return 'allow';
+    }
+
+    if (this.mode === 'read-only') {
+      return isReadOnlyTool(toolName, tool) ? 'allow' : 'deny';
+    }
+
+    return matchRule(this.rules[serverName], toolName)
+      ?? matchRule(this.rules['*'], toolName)
+      ?? matchRule(DEFAULT_RULES, toolName)
+      ?? 'ask';
+  }
+
+  /**
+   * Remember a decision for the rest of the session and, when the chat was
+   * started with a config file, save it there too.
+   * @returns True if the decision was written to the config file
+   */
+  async remember(serverName: string, toolName: string, permission: ToolPermission): Promise<boolean> {
+    this.rules[serverName] = { ...this.rules[serverName], [toolName]: permission };
+
+    if (!this.configPath) {
+      return false;
+    }
+
+    const raw = JSON.parse(await fs.readFile(this.configPath, 'utf-8'));
+    raw.permissions = raw.permissions || {};
+    raw.permissions.rules = raw.permissions.rules || {};
+    raw.permissions.rules[serverName] = { ...raw.permissions.rules[serverName], [toolName]: permission };
+    await fs.writeFile(this.configPath, JSON.stringify(raw, null, 2) + '\n', 'utf-8');
+
+    return true;
+  }
+}
+
+/**
+ * Map the --yolo / --read-only switches to a mode, if either was given
+ */
+export function permissionModeFromFlags(flags: { yolo?: boolean; readOnly?: boolean }): PermissionMode | undefined {
+  if (flags.yolo && flags.readOnly) {
+    throw new Error('--yolo and --read-only cannot be used together');
+  }
+  if (flags.yolo) return 'yolo';
+  if (flags.readOnly) return 'read-only';
+  return undefined;
+}
+
+export function isReadOnlyTool(toolName: string, tool?: MCPTool): boolean {
+  const hint = (tool as { annotations?: { readOnlyHint?: boolean } } | undefined)?.annotations?.readOnlyHint;
+  if (typeof hint === 'boolean') {
+    return hint;
+  }
+  return READ_ONLY_NAME_PATTERN.test(toolName);
+}
+
+/**
+ * Find the most specific rule for a tool: an exact name beats any pattern,
+ * and longer patterns beat shorter ones.
+ */
+function matchRule(rules: Record<string, ToolPermission> | undefined, toolName: string): ToolPermission | undefined {
+  if (!rules) return undefined;
+  if (rules[toolName]) return rules[toolName];
+
+  const pattern = Object.keys(rules)
+    .filter(key => key.includes('*') && wildcardToRegExp(key).test(toolName))
+    .sort((a, b) => b.replace(/\*/g, '').length - a.replace(/\*/g, '').length)[0];
+
+  return pattern ? rules[pattern] : undefined;
+}
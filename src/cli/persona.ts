@@ -0,0 +1,144 @@
+import type { MCPServerManager } from '../mcp/manager.js';
+import type { AppConfig, MCPTool, PersonaConfig } from '../types/index.js';
+import { formatToolResult } from './agent.js';
+import { wildcardToRegExp } from './wildcard.js';
+
+export const DEFAULT_PERSONA = 'default';
+
+export interface ActivePersona extends PersonaConfig {
+  name: string;
+}
+
+/**
+ * Look up a persona by name. The implicit `default` persona uses the
+ * top-level `systemPrompt` from the config.
+ */
+export function resolvePersona(config: AppConfig, name?: string): ActivePersona {
+  const personaName = name || config.defaultPersona || DEFAULT_PERSONA;
+  const persona = config.personas?.[personaName];
+
+  if (persona) {
+    return { systemPrompt: config.systemPrompt, ...persona, name: personaName };
+  }
+
+  if (personaName === DEFAULT_PERSONA) {
+    return { name: DEFAULT_PERSONA, systemPrompt: config.systemPrompt };
+  }
+
+  const available = Object.keys(config.personas || {});
+  throw new Error(
+    `Unknown persona: ${personaName}` +
+    (available.length > 0 ? `. Available personas: ${available.join(', ')}` : '. No personas are configured.')
+  );
+}
+
+export function listPersonas(config: AppConfig): ActivePersona[] {
+  const personas = Object.entries(config.personas || {}).map(([name, persona]) => ({ ...persona, name }));
+  if (!config.personas?.[DEFAULT_PERSONA]) {
+    personas.unshift({ name: DEFAULT_PERSONA, systemPrompt: config.systemPrompt });
+  }
+  return personas;
+}
+
+/**
+ * Build a predicate for the persona's allowed tools. Patterns may use `*`
+ * as a wildcard and match either the exposed or the un-namespaced tool name.
+ */
+export function createToolFilter(allowedTools?: string[]): ((tool: MCPTool) => boolean) | undefined {
+  if (!allowedTools) return undefined;
+
+  const patterns = allowedTools.map(wildcardToRegExp);
+
+  return (tool: MCPTool) => {
+    const bareName = tool.name.includes('__') ? tool.name.slice(tool.name.indexOf('__') + 2) : tool.name;
+    return patterns.some(pattern => pattern.test(tool.name) || pattern.test(bareName));
+  };
+}
+
+/**
+ * Expand `{{variable}}` placeholders. Unknown variables are left untouched.
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+    key in variables ? variables[key] : placeholder
+  );
+}
+
+/**
+ * Variables available to system prompt templates
+ */
+export async function collectPromptVariables(
+  mcpManager: MCPServerManager,
+  model: string,
+  persona: ActivePersona,
+  includeAllowedDirectories: boolean = true
+): Promise<Record<string, string>> {
+  const now = new Date();
+  return {
+    cwd: process.cwd(),
+    date: now.toISOString().slice(0, 10),
+    time: now.toLocaleTimeString(),
+    model,
+    persona: persona.name,
+    servers: mcpManager.getServerNames().join(', '),
+    allowedDirectories: includeAllowedDirectories
+      ? (await getAllowedDirectories(mcpManager)).join(', ')
+      : ''
+  };
+}
+
+export async function buildSystemPrompt(
+  mcpManager: MCPServerManager,
+  model: string,
+  persona: ActivePersona
+): Promise<string | undefined> {
+  if (!persona.systemPrompt) return undefined;
+
+  // Only ask the servers for their directories when the template uses them
+  const variables = await collectPromptVariables(
+    mcpManager,
+    model,
+    persona,
+    persona.systemPrompt.includes('allowedDirectories')
+  );
+
+  return renderPromptTemplate(persona.systemPrompt, variables);
+}
+
+/**
+ * Ask every connected filesystem server which directories it may access
+ */
+async function getAllowedDirectories(mcpManager: MCPServerManager): Promise<string[]> {
+  const directories: string[] = [];
+  const tools = mcpManager.getTools().filter(tool =>
+    tool.name === 'list_allowed_directories' || tool.name.endsWith('__list_allowed_directories')
+  );
+
+  for (const tool of tools) {
+    try {
+      const text = formatToolResult(await mcpManager.callTool(tool.name, {}));
+      directories.push(...parseAllowedDirectories(text));
+    } catch (error) {
+      console.error(`Failed to list allowed directories with ${tool.name}:`, error);
+    }
+  }
+
+  return [...new Set(directories)];
+}
+
+function parseAllowedDirectories(text: string): string[] {
+  // The built-in servers answer with JSON, the reference server with one path per line
+  try {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed.allowedDirectories)) {
+      return parsed.allowedDirectories;
+    }
+  } catch {
+    // Not JSON
+  }
+
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('/') || /^[A-Za-z]:\\/.test(line));
+}
@@ -0,0 +1,171 @@
+import type { ChatContentPart, ChatMessage, MCPPrompt, MCPPromptMessage } from '../types/index.js';
+
+// `name=value` or a bare value; either kind of value may be quoted to hold spaces
+const ARGUMENT_PATTERN = /(?:([A-Za-z_][\w-]*)=)?(?:"([^"]*)"|'([^']*)'|(\S+))/g;
+
+export interface PromptCommand {
+  server: string;
+  prompt: MCPPrompt;
+}
+
+type PromptArgument = NonNullable<MCPPrompt['arguments']>[number];
+
+export function promptCommandName(command: PromptCommand): string {
+  return `/${command.server}:${command.prompt.name}`;
+}
+
+export function findPromptCommand(name: string, commands: PromptCommand[]): PromptCommand | undefined {
+  return commands.find(command => promptCommandName(command).toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Match what was typed after a prompt command to the prompt's arguments.
+ * `name=value` sets an argument by name, and bare values fill the arguments
+ * not named, in order.
+ * @returns The values given, and the required arguments that are still missing
+ */
+export function parsePromptArguments(prompt: MCPPrompt, text: string): { values: Record<string, string>; missing: PromptArgument[] } {
+  const declared = prompt.arguments || [];
+  const values: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (const match of text.matchAll(ARGUMENT_PATTERN)) {
+    const value = match[2] ?? match[3] ?? match[4];
+    if (!match[1]) {
+      positional.push(value);
+      continue;
+    }
+
+    const argument = declared.find(candidate => candidate.name.toLowerCase() === match[1].toLowerCase());
+    if (!argument) {
+      throw new Error(`${prompt.name} has no argument ${match[1]}${describeArguments(declared)}`);
+    }
+    values[argument.name] = value;
+  }
+
+  const unfilled = declared.filter(argument => !(argument.name in values));
+  if (positional.length > unfilled.length) {
+    throw new Error(`Too many values for ${prompt.name}${describeArguments(declared)}`);
+  }
+  positional.forEach((value, index) => {
+    values[unfilled[index].name] = value;
+  });
+
+  return {
+    values,
+    missing: declared.filter(argument => argument.required && !values[argument.name])
+  };
+}
+
+/**
+ * Turn the messages a prompt expanded to into chat messages. Messages in a
+ * row from the same role are merged, the way a person would have typed them.
+ */
+export function promptMessagesToChat(messages: MCPPromptMessage[]): ChatMessage[] {
+  const groups: Array<{ role: 'user' | 'assistant'; texts: string[]; images: ChatContentPart[] }> = [];
+
+  for (const message of messages) {
+    let group = groups[groups.length - 1];
+    if (!group || group.role !== message.role) {
+      group = { role: message.role, texts: [], images: [] };
+      groups.push(group);
+    }
+
+    const content = message.content;
+    if (content.type === 'text') {
+      group.texts.push(content.text);
+    } else if (content.type === 'image' && message.role === 'user') {
+      group.images.push({ type: 'image', mediaType: content.mimeType, data: content.data });
+    } else if (content.type === 'resource') {
+      const resource = content.resource;
+      group.texts.push(typeof resource.text === 'string'
+        ? `Resource: ${resource.uri}\n\`\`\`\n${resource.text}\n\`\`\``
+        : `[binary resource ${resource.uri}${resource.mimeType ? ` (${resource.mimeType})` : ''} left out]`);
+    } else if (content.type === 'resource_link') {
+      group.texts.push(`Resource: ${content.uri}`);
+    } else {
+      group.texts.push(`[${content.type} content left out]`);
+    }
+  }
+
+  return groups.map(group => {
+    const text = group.texts.join('\n\n');
+    return {
+      role: group.role,
+      content: group.images.length > 0 ? [{ type: 'text', text }, ...group.images] : text,
+      timestamp: new Date()
+    };
+  });
+}
+
+/**
+ * Tab completion for the chat input: slash commands (built-in and prompts),
+ * then a prompt's argument names and, from the server, their values
+ * @returns Readline's completer result: the candidates and the text they replace
+ */
+export async function completeChatInput(
+  line: string,
+  builtinCommands: string[],
+  prompts: PromptCommand[],
+  completeValue: (command: PromptCommand, argumentName: string, value: string) => Promise<string[]>
+): Promise<[string[], string]> {
+  if (!line.startsWith('/')) {
+    return [[], line];
+  }
+
+  const firstSpace = line.search(/\s/);
+  if (firstSpace === -1) {
+    const names = [...builtinCommands, ...prompts.map(promptCommandName)];
+    return [names.filter(name => name.toLowerCase().startsWith(line.toLowerCase())), line];
+  }
+
+  const command = findPromptCommand(line.slice(0, firstSpace), prompts);
+  if (!command) {
+    return [[], line];
+  }
+
+  const declared = command.prompt.arguments || [];
+  const before = line.slice(firstSpace, line.search(/\S*$/));
+  const token = line.slice(before.length + firstSpace);
+
+  // Values already typed decide which arguments are left
+  let given: Record<string, string> = {};
+  try {
+    given = parsePromptArguments(command.prompt, before).values;
+  } catch {
+    return [[], token];
+  }
+
+  const equals = token.indexOf('=');
+  if (equals !== -1) {
+    const name = token.slice(0, equals);
+    const argument = declared.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (!argument) {
+      return [[], token];
+    }
+    const values = await completeValue(command, argument.name, token.slice(equals + 1)).catch(() => []);
+    return [values.map(value => `${name}=${quoteValue(value)}`), token];
+  }
+
+  const unfilled = declared.filter(argument => !(argument.name in given));
+  const names = unfilled
+    .map(argument => `${argument.name}=`)
+    .filter(name => name.toLowerCase().startsWith(token.toLowerCase()));
+
+  // A bare value goes to the first argument not yet given
+  const values = unfilled[0]
+    ? await completeValue(command, unfilled[0].name, token).catch(() => [])
+    : [];
+
+  return [[...names, ...values.map(quoteValue)], token];
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function describeArguments(declared: PromptArgument[]): string {
+  return declared.length > 0
+    ? ` (arguments: ${declared.map(argument => argument.required ? argument.name : `[${argument.name}]`).join(' ')})`
+    : ' (it takes no arguments)';
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { ChatMessage, ChatSession, MCPServerConfig, SessionServer } from '../types/index.js';
+import { serverFromFlag } from './config.js';
+
+export function defaultSessionsDirectory(): string {
+  return path.join(os.homedir(), '.ai-chat', 'sessions');
+}
+
+/**
+ * What a session records about its connected servers: the name of each one
+ * from the config file, and the --server value of any other
+ */
+export function toSessionServers(connected: MCPServerConfig[], configured: MCPServerConfig[]): SessionServer[] {
+  return connected.map(server => configured.some(candidate => candidate.name === server.name)
+    ? { name: server.name }
+    : { name: server.name, server: server.url || [server.command, ...(server.args || [])].join(' ') });
+}
+
+/**
+ * Server configs for a saved session, taken from the current config file
+ * @returns The configs, and the names of servers that are no longer configured
+ */
+export function fromSessionServers(saved: SessionServer[], configured: MCPServerConfig[]): { servers: MCPServerConfig[]; missing: string[] } {
+  const servers: MCPServerConfig[] = [];
+  const missing: string[] = [];
+
+  for (const entry of saved) {
+    const server = entry.server
+      ? { ...serverFromFlag(entry.server), name: entry.name }
+      : configured.find(candidate => candidate.name === entry.name);
+    if (server) {
+      servers.push(server);
+    } else {
+      missing.push(entry.name);
+    }
+  }
+
+  return { servers, missing };
+}
+
+export class SessionStore {
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || defaultSessionsDirectory();
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Start a new, unsaved session
+   */
+  create(model: string, servers: SessionServer[]): ChatSession {
+    const now = new Date();
+    return {
+      id: `${now.toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 6)}`,
+      model,
+      servers,
+      messages: [],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    session.updatedAt = new Date().toISOString();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(session.id), JSON.stringify(session, null, 2), 'utf-8');
+  }
+
+  /**
+   * Load a session by exact id, by name, or by a unique id prefix
+   */
+  async load(idOrName: string): Promise<ChatSession> {
+    const sessions = await this.list();
+    const match = sessions.find(s => s.id === idOrName)
+      || sessions.find(s => s.name === idOrName);
+
+    if (match) {
+      return match;
+    }
+
+    const prefixed = sessions.filter(s => s.id.startsWith(idOrName));
+    if (prefixed.length === 1) {
+      return prefixed[0];
+    }
+    if (prefixed.length > 1) {
+      throw new Error(`Session id "${idOrName}" is ambiguous (${prefixed.length} matches)`);
+    }
+
+    throw new Error(`Session not found: ${idOrName}`);
+  }
+
+  async latest(): Promise<ChatSession | null> {
+    const sessions = await this.list();
+    return sessions[0] || null;
+  }
+
+  /**
+   * All saved sessions, most recently updated first
+   */
+  async list(): Promise<ChatSession[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const sessions: ChatSession[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const content = await fs.readFile(path.join(this.directory, file), 'utf-8');
+        sessions.push(this.revive(JSON.parse(content)));
+      } catch (error) {
+        console.warn(`Skipping unreadable session file ${file}:`, error);
+      }
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  private revive(session: ChatSession): ChatSession {
+    return {
+      ...session,
+      servers: (session.servers || []).map(reviveServer),
+      messages: (session.messages || []).map((message: ChatMessage) => ({
+        ...message,
+        timestamp: message.timestamp ? new Date(message.timestamp) : undefined
+      }))
+    };
+  }
+}
+
+/**
+ * Older sessions saved whole server configs; keep only what is saved now
+ */
+function reviveServer(saved: SessionServer & Partial<MCPServerConfig>): SessionServer {
+  if (saved.server) {
+    return { name: saved.name, server: saved.server };
+  }
+  // The --server flag was the only way to connect a server missing from the config
+  if (saved.name === 'custom' && (saved.url || saved.command)) {
+    return { name: saved.name, server: saved.url || [saved.command, ...(saved.args || [])].join(' ') };
+  }
+  return { name: saved.name };
+}
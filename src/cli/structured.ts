@@ -0,0 +1,164 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import Ajv from 'ajv';
+import Ajv2019 from 'ajv/dist/2019.js';
+import Ajv2020 from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+import type { MCPServerManager } from '../mcp/manager.js';
+import type { ChatMessage, ChatProvider, JsonSchemaFormat } from '../types/index.js';
+import { joinReasoning, runAgentTurn } from './agent.js';
+import type { AgentTurnOptions, AgentTurnResult } from './agent.js';
+import { addUsage } from './usage.js';
+
+export const DEFAULT_SCHEMA_RETRIES = 2;
+
+export interface StructuredTurnOptions extends AgentTurnOptions {
+  // Re-prompts after the first reply that doesn't match
+  maxRetries?: number;
+  // Spell the schema out in the system prompt, for models without response_format support
+  describeSchema?: boolean;
+  // Called before re-prompting with the validation errors
+  onInvalid?: (errors: string[], retry: number) => void;
+}
+
+export interface StructuredTurnResult extends AgentTurnResult {
+  // The parsed reply, when it matched the schema
+  value?: unknown;
+  // Validation errors for the last reply; empty when it matched
+  errors: string[];
+  attempts: number;
+}
+
+/**
+ * Read a JSON Schema file into a response format named after the file
+ */
+export async function loadSchema(schemaPath: string): Promise<JsonSchemaFormat> {
+  let schema: Record<string, unknown>;
+  try {
+    schema = JSON.parse(await fs.readFile(schemaPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read schema ${schemaPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    compileSchema(schema);
+  } catch (error) {
+    throw new Error(`Invalid JSON Schema in ${schemaPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // The API only allows letters, digits, underscores and dashes in the name
+  const name = (typeof schema.title === 'string' ? schema.title : path.basename(schemaPath, path.extname(schemaPath)))
+    .replace(/[^a-zA-Z0-9_-]/g, '_')
+    .slice(0, 64);
+
+  return { name: name || 'response', schema };
+}
+
+/**
+ * Parse a reply as JSON and check it against the schema
+ * @returns The value, or the reasons it doesn't match
+ */
+export function validateReply(text: string, format: JsonSchemaFormat): { value?: unknown; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(text));
+  } catch (error) {
+    return { errors: [`Reply is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const validate = compileSchema(format.schema, true);
+  if (validate(value)) {
+    return { value, errors: [] };
+  }
+
+  return {
+    errors: (validate.errors || []).map(error => `${error.instancePath || '(root)'} ${error.message}`)
+  };
+}
+
+/**
+ * Compile a schema for the draft its $schema names, draft-07 when it names
+ * none. Keywords Ajv doesn't know are ignored rather than rejected.
+ */
+function compileSchema(schema: Record<string, unknown>, allErrors: boolean = false) {
+  const draft = typeof schema.$schema === 'string' ? schema.$schema : '';
+  const options = { allErrors, strict: false };
+  const ajv = draft.includes('2020-12')
+    ? new Ajv2020(options)
+    : draft.includes('2019-09') ? new Ajv2019(options) : new Ajv(options);
+  addFormats(ajv);
+  return ajv.compile(schema);
+}
+
+/**
+ * Run a turn whose final reply must be JSON matching a schema. Replies that
+ * don't match are answered with the validation errors, up to maxRetries times.
+ */
+export async function runStructuredTurn(
+  provider: ChatProvider,
+  mcpManager: MCPServerManager,
+  messages: ChatMessage[],
+  format: JsonSchemaFormat,
+  options: StructuredTurnOptions = {}
+): Promise<StructuredTurnResult> {
+  const maxRetries = options.maxRetries ?? DEFAULT_SCHEMA_RETRIES;
+  const systemPrompt = options.describeSchema
+    ? [options.systemPrompt, describeSchema(format)].filter(Boolean).join('\n\n')
+    : options.systemPrompt;
+
+  let result: StructuredTurnResult | undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    const turn = await runAgentTurn(provider, mcpManager, messages, { ...options, systemPrompt });
+    result = combineTurns(result, turn, attempt);
+
+    if (turn.interrupted || turn.hitIterationLimit) {
+      return result;
+    }
+
+    // Text before a tool call ("Let me check.") isn't part of the answer
+    const { value, errors } = validateReply(turn.finalContent, format);
+    result.value = value;
+    result.errors = errors;
+
+    if (errors.length === 0 || attempt > maxRetries) {
+      return result;
+    }
+
+    options.onInvalid?.(errors, attempt);
+    messages.push({
+      role: 'user',
+      content: `Your reply does not match the required JSON schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReply again with only the corrected JSON.`,
+      timestamp: new Date()
+    });
+  }
+}
+
+function describeSchema(format: JsonSchemaFormat): string {
+  return `Reply with only a JSON value, without code fences or commentary, that matches this JSON Schema:\n${JSON.stringify(format.schema, null, 2)}`;
+}
+
+function combineTurns(previous: StructuredTurnResult | undefined, turn: AgentTurnResult, attempt: number): StructuredTurnResult {
+  if (!previous) {
+    return { ...turn, errors: [], attempts: attempt };
+  }
+
+  return {
+    ...turn,
+    iterations: previous.iterations + turn.iterations,
+    toolCalls: previous.toolCalls + turn.toolCalls,
+    failedToolCalls: previous.failedToolCalls + turn.failedToolCalls,
+    deniedToolCalls: previous.deniedToolCalls + turn.deniedToolCalls,
+    usage: addUsage({ ...previous.usage }, turn.usage),
+    reasoning: joinReasoning(previous.reasoning, turn.reasoning),
+    reasoningTokens: previous.reasoningTokens + turn.reasoningTokens,
+    errors: previous.errors,
+    attempts: attempt
+  };
+}
+
+// Models without native JSON mode often wrap the JSON in a markdown fence
+function stripCodeFence(text: string): string {
+  const fenced = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  return fenced ? fenced[1] : text.trim();
+}
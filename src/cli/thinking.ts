@@ -0,0 +1,58 @@
+import { UIHelpers } from './ui.js';
+import { countRows } from './markdown.js';
+
+/**
+ * Streams a reasoning summary as a dimmed "Thinking" block. When the answer
+ * starts, a TTY collapses the block to a one-line note; other outputs keep the
+ * text and get the note underneath.
+ */
+export class ThinkingBlock {
+  private printed = '';
+  private atLineStart = true;
+  private readonly startedAt = Date.now();
+  private readonly live: boolean;
+
+  constructor(private readonly output: NodeJS.WriteStream = process.stdout) {
+    this.live = Boolean(output.isTTY);
+    this.print(UIHelpers.formatThinkingHeader() + '\n');
+  }
+
+  write(chunk: string): void {
+    let text = '';
+    for (const part of chunk.split(/(\n)/)) {
+      // Every line starts with the block's border, including blank ones
+      const border = this.atLineStart ? UIHelpers.THINKING_BORDER : '';
+      if (part === '\n') {
+        text += border + '\n';
+        this.atLineStart = true;
+      } else if (part) {
+        text += border + UIHelpers.formatThinkingText(part);
+        this.atLineStart = false;
+      }
+    }
+    this.print(text);
+  }
+
+  /**
+   * Replace the block with a note saying how long the model thought
+   */
+  collapse(): void {
+    const seconds = Math.max(1, Math.round((Date.now() - this.startedAt) / 1000));
+    const rows = countRows(this.printed, 0, this.output.columns || 80);
+
+    // Rows that have scrolled off the screen can't be erased
+    if (this.live && rows < (this.output.rows || 24)) {
+      const up = rows > 1 ? `\x1b[${rows - 1}A` : '';
+      this.output.write(`\r${up}\x1b[J`);
+    } else if (!this.atLineStart) {
+      this.output.write('\n');
+    }
+
+    this.output.write(UIHelpers.formatThinkingSummary(seconds) + '\n');
+  }
+
+  private print(text: string): void {
+    this.output.write(text);
+    this.printed += text;
+  }
+}
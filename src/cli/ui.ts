@@ -1,5 +1,6 @@
 import chalk from 'chalk';
 import ora from 'ora';
+import { formatBytes } from './attachments.js';
 
 export class UIHelpers {
   // Enhanced color palette for premium feel
@@ -17,6 +18,9 @@ export class UIHelpers {
   static readonly SYSTEM_PREFIX = chalk.bold.yellow('⚡ ') + chalk.bold.white('System');
   static readonly TOOL_PREFIX = chalk.bold.magenta('🔧 ') + chalk.bold.white('Tool');
   static readonly ERROR_PREFIX = chalk.bold.red('❌ ') + chalk.bold.white('Error');
+  static readonly THINKING_BORDER = chalk.dim('│ ');
+  // Width of the border that starts each assistant reply
+  static readonly ASSISTANT_INDENT = 2;
 
   static formatUserMessage(message: string): string {
     const border = chalk.blue('│ ');
@@ -31,12 +35,62 @@ export class UIHelpers {
     return `${this.SYSTEM_PREFIX} ${chalk.yellow(message)}`;
   }
 
+  static formatThinkingHeader(): string {
+    return chalk.dim(`💭 ${chalk.italic('Thinking...')}`);
+  }
+
+  static formatThinkingText(text: string): string {
+    return chalk.dim.italic(text);
+  }
+
+  static formatThinkingSummary(seconds: number): string {
+    return chalk.dim(`💭 Thought for ${seconds}s ${chalk.italic('(/thinking shows it)')}`);
+  }
+
+  static showThinking(reasoning: string) {
+    if (!reasoning) {
+      console.log(chalk.gray('\n💭 No reasoning in the last reply. Only reasoning models send it.\n'));
+      return;
+    }
+    console.log(`\n${chalk.dim('💭 Thinking')}`);
+    console.log(reasoning.split('\n').map(line => this.THINKING_BORDER + this.formatThinkingText(line)).join('\n') + '\n');
+  }
+
   static formatToolMessage(toolName: string, result: string): string {
     const toolLabel = chalk.bold.magenta(`[${toolName}]`);
     const resultPreview = result.length > 100 ? result.substring(0, 97) + '...' : result;
     return `${this.TOOL_PREFIX} ${toolLabel} ${chalk.gray('→')} ${chalk.white(resultPreview)}`;
   }
 
+  static formatRunningTools(toolNames: string[]): string {
+    return toolNames.length === 1
+      ? `Executing ${toolNames[0]}...`
+      : `Executing ${toolNames.length} tools: ${toolNames.join(', ')}...`;
+  }
+
+  static formatRetryCountdown(retry: { reason: string; attempt: number; maxRetries: number }, secondsLeft: number): string {
+    const when = secondsLeft > 0 ? `in ${secondsLeft}s` : 'now';
+    return `${retry.reason}, retrying ${when} (attempt ${retry.attempt} of ${retry.maxRetries})...`;
+  }
+
+  static formatToolApproval(serverName: string, toolName: string, args: any): string {
+    const prettyArgs = JSON.stringify(args ?? {}, null, 2)
+      .split('\n')
+      .map(line => `${chalk.magenta('│')} ${chalk.white(line)}`)
+      .join('\n');
+
+    return [
+      '',
+      `${chalk.magenta('╭─')} ${chalk.bold.yellow('Approve tool call?')} ${chalk.bold.white(toolName)} ${chalk.gray(`on ${serverName}`)}`,
+      prettyArgs,
+      chalk.magenta('╰─────────────────────────')
+    ].join('\n');
+  }
+
+  static createApprovalPrompt(): string {
+    return `${chalk.bold.yellow('?')} ${chalk.white('Allow')} ${chalk.gray('[y]es once / [a]lways / [n]o')} ${chalk.yellow('>')} `;
+  }
+
   static formatError(error: string): string {
     return `${this.ERROR_PREFIX} ${chalk.red(error)}`;
   }
@@ -85,7 +139,7 @@ export class UIHelpers {
       chalk.hex('#00D9FF')('✨ Welcome to the future of AI conversation'),
       chalk.gray('   Type your message and press Enter to begin'),
       chalk.gray('   AI responses support beautiful markdown rendering!'),
-      chalk.gray('   Use Ctrl+C to exit gracefully'),
+      chalk.gray('   Use Ctrl+C to interrupt a response, twice to exit'),
       ''
     ];
     
@@ -104,23 +158,170 @@ export class UIHelpers {
     console.log(hint);
   }
 
-  static showConnectionStatus(serverName: string, connected: boolean) {
-    const statusIcon = connected ? '🟢' : '🔴';
-    const statusText = connected 
-      ? chalk.bold.green('CONNECTED') 
-      : chalk.bold.red('DISCONNECTED');
+  static showConnectionStatus(serverName: string, status: 'connected' | 'reconnecting' | 'disconnected', detail?: string) {
+    const statusIcon = { connected: '🟢', reconnecting: '🟡', disconnected: '🔴' }[status];
+    const statusText = {
+      connected: chalk.bold.green('CONNECTED'),
+      reconnecting: chalk.bold.yellow('RECONNECTING'),
+      disconnected: chalk.bold.red('DISCONNECTED')
+    }[status];
     
     const serverDisplay = chalk.bold.white(serverName);
-    const connectionBar = connected 
-      ? chalk.green('▓'.repeat(20))
-      : chalk.red('░'.repeat(20));
+    const connectionBar = {
+      connected: chalk.green('▓'.repeat(20)),
+      reconnecting: chalk.yellow('▒'.repeat(20)),
+      disconnected: chalk.red('░'.repeat(20))
+    }[status];
     
     console.log(`\n${chalk.cyan('╭─ MCP Server Status')}`);
     console.log(`${chalk.cyan('├─')} ${statusIcon} ${serverDisplay} ${statusText}`);
+    if (detail) {
+      console.log(`${chalk.cyan('├─')} ${chalk.gray(detail)}`);
+    }
     console.log(`${chalk.cyan('├─')} ${connectionBar}`);
     console.log(`${chalk.cyan('╰─────────────────────────')}\n`);
   }
 
+  static showServers(servers: Array<{
+    name: string;
+    transport: string;
+    status: 'connected' | 'reconnecting' | 'disconnected';
+    connectedSince?: Date;
+    restarts: number;
+    tools: number;
+    lastError?: string;
+    nextAttemptAt?: Date;
+  }>) {
+    if (servers.length === 0) {
+      console.log(chalk.gray('\n🔌 No MCP servers connected\n'));
+      return;
+    }
+
+    console.log(chalk.cyan('\n╭─ MCP Servers'));
+    const width = Math.max(...servers.map(server => server.name.length));
+    servers.forEach((server, index) => {
+      const connector = index === servers.length - 1 ? '╰─' : '├─';
+      const icon = { connected: '🟢', reconnecting: '🟡', disconnected: '🔴' }[server.status];
+      const state = server.status === 'connected' && server.connectedSince
+        ? `up ${this.formatDuration(Date.now() - server.connectedSince.getTime())}`
+        : server.status === 'reconnecting' && server.nextAttemptAt
+          ? `reconnecting, next try in ${this.formatDuration(Math.max(0, server.nextAttemptAt.getTime() - Date.now()))}`
+          : server.status;
+      const details = [
+        server.transport,
+        state,
+        `${server.restarts} ${server.restarts === 1 ? 'restart' : 'restarts'}`,
+        `${server.tools} tools${server.status === 'connected' ? '' : ' unavailable'}`
+      ].join(', ');
+
+      console.log(`${chalk.cyan(connector)} ${icon} ${chalk.bold.white(server.name.padEnd(width))}  ${chalk.gray(details)}`);
+      if (server.lastError && server.status !== 'connected') {
+        console.log(`${chalk.cyan(index === servers.length - 1 ? '  ' : '│ ')}    ${chalk.red(server.lastError)}`);
+      }
+    });
+    console.log('');
+  }
+
+  static showResources(servers: Array<{
+    server: string;
+    resources: Array<{ uri: string; name: string; description?: string }>;
+    templates: Array<{ uriTemplate: string; name: string; description?: string }>;
+    subscriptions: string[];
+  }>) {
+    if (servers.length === 0) {
+      console.log(chalk.gray('\n📚 No connected server offers resources\n'));
+      return;
+    }
+
+    for (const { server, resources, templates, subscriptions } of servers) {
+      console.log(chalk.cyan(`\n╭─ Resources on ${server}`));
+      const lines = [
+        ...resources.map(resource => {
+          const bell = subscriptions.includes(resource.uri) ? ' 🔔' : '';
+          const label = resource.name && !resource.uri.endsWith(resource.name) ? chalk.gray(` (${resource.name})`) : '';
+          const description = resource.description ? chalk.gray(` - ${resource.description}`) : '';
+          return `📄 ${chalk.white(`@${server}:${resource.uri}`)}${label}${description}${bell}`;
+        }),
+        ...templates.map(template => {
+          const description = template.description ? chalk.gray(` - ${template.description}`) : '';
+          return `🧩 ${chalk.white(`@${server}:${template.uriTemplate}`)}${description}`;
+        })
+      ];
+
+      if (lines.length === 0) {
+        console.log(`${chalk.cyan('╰─')} ${chalk.gray('No resources')}`);
+      }
+      lines.forEach((line, index) => {
+        console.log(`${chalk.cyan(index === lines.length - 1 ? '╰─' : '├─')} ${line}`);
+      });
+    }
+    console.log(chalk.gray('\nMention @server:uri in a message to include a resource\n'));
+  }
+
+  static showResourceContents(server: string, contents: Array<{ uri: string; mimeType?: string; text?: string; blob?: string }>) {
+    for (const content of contents) {
+      console.log(chalk.cyan(`\n╭─ ${server}:${content.uri}`) + (content.mimeType ? chalk.gray(` (${content.mimeType})`) : ''));
+      if (content.text !== undefined) {
+        console.log(content.text);
+      } else {
+        console.log(chalk.gray(`[binary, ${formatBytes(Buffer.byteLength(content.blob || '', 'base64'))}]`));
+      }
+    }
+    console.log('');
+  }
+
+  static showPrompts(prompts: Array<{
+    command: string;
+    description?: string;
+    arguments?: Array<{ name: string; required?: boolean }>;
+  }>) {
+    if (prompts.length === 0) {
+      console.log(chalk.gray('\n💬 No connected server offers prompts\n'));
+      return;
+    }
+
+    console.log(chalk.cyan('\n╭─ Server Prompts'));
+    prompts.forEach((prompt, index) => {
+      const connector = index === prompts.length - 1 ? '╰─' : '├─';
+      const args = (prompt.arguments || [])
+        .map(argument => argument.required ? `${argument.name}=…` : `[${argument.name}=…]`)
+        .join(' ');
+      const description = prompt.description ? chalk.gray(` - ${prompt.description}`) : '';
+      console.log(`${chalk.cyan(connector)} 💬 ${chalk.bold.white(prompt.command)}${args ? ` ${chalk.yellow(args)}` : ''}${description}`);
+    });
+    console.log(chalk.gray('\nPress Tab to complete prompt names and arguments\n'));
+  }
+
+  /**
+   * A message a server prompt added, cut short so a long one doesn't flood the screen
+   */
+  static formatPromptMessage(role: string, content: string | Array<{ type: string; text?: string }>, maxChars: number = 600): string {
+    const text = typeof content === 'string'
+      ? content
+      : content.map(part => part.type === 'text' ? part.text : `[${part.type}]`).join('\n');
+    const shown = text.length > maxChars
+      ? `${text.slice(0, maxChars)}${chalk.gray(`… (${text.length - maxChars} more characters)`)}`
+      : text;
+    return role === 'user' ? this.formatUserMessage(shown) : `${this.formatAssistantMessage('')}${chalk.white(shown)}\n`;
+  }
+
+  static createArgumentPrompt(name: string, description?: string): string {
+    return `${chalk.bold.yellow('?')} ${chalk.white(name)}${description ? chalk.gray(` (${description})`) : ''} ${chalk.yellow('>')} `;
+  }
+
+  static showResourceUpdated(server: string, uri: string) {
+    console.log(chalk.magenta(`🔔 ${server}:${uri} changed`) + chalk.gray(` (read it with /resources read ${server}:${uri})`));
+  }
+
+  static formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  }
+
   static showAvailableTools(tools: Array<{ name: string; description?: string }>) {
     if (tools.length === 0) {
       console.log(chalk.gray('\n📦 No tools available\n'));
@@ -227,7 +428,7 @@ export class UIHelpers {
 
   static showCommandPalette() {
     const commands = [
-      { key: 'Ctrl+C', desc: 'Exit gracefully' },
+      { key: 'Ctrl+C', desc: 'Interrupt response (twice to exit)' },
       { key: 'Ctrl+L', desc: 'Clear screen' },
       { key: 'Enter', desc: 'Send message' }
     ];
@@ -259,9 +460,189 @@ export class UIHelpers {
     return chalk.gray(char.repeat(length));
   }
 
-  static showModelInfo(model: string) {
+  static showModelInfo(
+    model: string,
+    persona?: string,
+    provider?: string,
+    details?: { contextLimit: number; tools: boolean; vision: boolean }
+  ) {
     console.log(chalk.cyan(`\n╭─ Configuration`));
-    console.log(chalk.cyan(`├─ 🤖 Model: ${chalk.bold.white(model)}`));
+    if (provider) {
+      console.log(chalk.cyan(`├─ 🔌 Provider: ${chalk.bold.white(provider)}`));
+    }
+    console.log(chalk.cyan(`├─ 🤖 Model: ${chalk.bold.white(model)}${details ? chalk.gray(` (${this.formatModelDetails(details)})`) : ''}`));
+    if (persona) {
+      console.log(chalk.cyan(`├─ 🎭 Persona: ${chalk.bold.white(persona)}`));
+    }
     console.log(chalk.cyan(`╰─ 🚀 Ready for conversation\n`));
   }
-} 
\ No newline at end of file
+
+  static showModels(
+    provider: string,
+    models: Array<{ id: string; contextLimit: number; tools: boolean; vision: boolean }>,
+    options: { current?: string; fetchedAt?: string; hidden?: number } = {}
+  ) {
+    const cached = options.fetchedAt ? `, cached ${new Date(options.fetchedAt).toLocaleString()}` : '';
+    console.log(chalk.cyan(`\n╭─ Models ${chalk.gray(`(${provider}, ${models.length} available${cached})`)}`));
+    if (models.length === 0) {
+      console.log(chalk.cyan(`├─ ${chalk.gray('No chat models found')}`));
+    }
+
+    const width = Math.max(0, ...models.map(model => model.id.length));
+    for (const model of models) {
+      const marker = model.id === options.current ? chalk.green('●') : ' ';
+      console.log(chalk.cyan(`├─ ${marker} ${chalk.bold.white(model.id.padEnd(width))}  ${chalk.gray(this.formatModelDetails(model))}`));
+    }
+
+    const notes = [
+      options.hidden ? `${options.hidden} non-chat models hidden (--all shows them)` : '',
+      options.fetchedAt ? '--refresh fetches the list again' : ''
+    ].filter(Boolean);
+    console.log(chalk.cyan(`╰─ ${chalk.gray(notes.length > 0 ? notes.join('; ') : 'Switch with --model or /model <name>')}\n`));
+  }
+
+  static formatModelDetails(details: { contextLimit: number; tools: boolean; vision: boolean }): string {
+    const context = details.contextLimit >= 1000000
+      ? `${Math.round(details.contextLimit / 100000) / 10}M`
+      : `${Math.round(details.contextLimit / 1000)}K`;
+    return [`${context} context`, details.tools ? 'tools' : 'no tools', details.vision ? 'vision' : ''].filter(Boolean).join(' · ');
+  }
+
+  static showSessions(sessions: Array<{ id: string; name?: string; model: string; messages: unknown[]; updatedAt: string }>, currentId?: string) {
+    if (sessions.length === 0) {
+      console.log(chalk.gray('\n💾 No saved sessions\n'));
+      return;
+    }
+
+    console.log(chalk.cyan('\n╭─ Saved Sessions'));
+    sessions.forEach((session, index) => {
+      const isLast = index === sessions.length - 1;
+      const connector = isLast ? '╰─' : '├─';
+      const marker = session.id === currentId ? chalk.green('●') : ' ';
+      const label = session.name ? `${chalk.bold.white(session.name)} ${chalk.gray(session.id)}` : chalk.bold.white(session.id);
+      const details = chalk.gray(` - ${session.messages.length} messages, ${session.model}, ${new Date(session.updatedAt).toLocaleString()}`);
+
+      console.log(`${chalk.cyan(connector)} ${marker} ${label}${details}`);
+    });
+    console.log('');
+  }
+
+  static showSessionRestored(session: { id: string; name?: string; messages: unknown[] }) {
+    const label = session.name || session.id;
+    console.log(chalk.cyan(`╭─ Session`));
+    console.log(chalk.cyan(`├─ 💾 Restored: ${chalk.bold.white(label)}`));
+    console.log(chalk.cyan(`╰─ 💬 ${session.messages.length} messages in history\n`));
+  }
+
+  static showContextUsage(usage: { model: string; usedTokens: number; framingTokens: number; limit: number; budget: number; messages: number; policy: string }) {
+    const ratio = usage.budget > 0 ? Math.min(1, usage.usedTokens / usage.budget) : 1;
+    const filled = Math.round(ratio * 30);
+    const color = ratio > 0.9 ? chalk.red : ratio > 0.7 ? chalk.yellow : chalk.green;
+    const bar = color('█'.repeat(filled)) + chalk.gray('░'.repeat(30 - filled));
+
+    console.log(chalk.cyan('\n╭─ Context Window'));
+    console.log(chalk.cyan(`├─ 🤖 Model: ${chalk.bold.white(usage.model)}`));
+    console.log(chalk.cyan(`├─ ${bar} ${chalk.bold.white(`${Math.round(ratio * 100)}%`)}`));
+    console.log(chalk.cyan(`├─ 🧮 ~${usage.usedTokens.toLocaleString()} of ${usage.budget.toLocaleString()} tokens ${chalk.gray(`(limit ${usage.limit.toLocaleString()}, rest reserved for the reply)`)}`));
+    console.log(chalk.cyan(`├─ 💬 ${usage.messages} messages`));
+    if (usage.framingTokens > 0) {
+      console.log(chalk.cyan(`├─ 📌 ~${usage.framingTokens.toLocaleString()} tokens for the system prompt and tools ${chalk.gray('(sent with every request)')}`));
+    }
+    console.log(chalk.cyan(`╰─ ✂️  Policy: ${chalk.bold.white(usage.policy)}\n`));
+  }
+
+  static formatTokenUsage(usage: { promptTokens: number; completionTokens: number; cachedTokens: number; reasoningTokens?: number }): string {
+    const cached = usage.cachedTokens > 0 ? ` (${usage.cachedTokens.toLocaleString()} cached)` : '';
+    const reasoning = usage.reasoningTokens ? ` (${usage.reasoningTokens.toLocaleString()} reasoning)` : '';
+    return `${usage.promptTokens.toLocaleString()} in${cached} · ${usage.completionTokens.toLocaleString()} out${reasoning}`;
+  }
+
+  static formatCost(cost?: number): string {
+    if (cost === undefined) return 'no price';
+    return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+  }
+
+  static formatUsageFooter(
+    usage: { promptTokens: number; completionTokens: number; cachedTokens: number; reasoningTokens?: number },
+    cost?: number,
+    sessionCost?: number
+  ): string {
+    const session = sessionCost !== undefined ? ` · session ${this.formatCost(sessionCost)}` : '';
+    return chalk.gray(`${' '.repeat(this.ASSISTANT_INDENT)}↳ ${this.formatTokenUsage(usage)} · ${this.formatCost(cost)}${session}`);
+  }
+
+  static showUsage(
+    title: string,
+    summaries: Array<{ model: string; usage: { promptTokens: number; completionTokens: number; cachedTokens: number }; cost?: number }>
+  ) {
+    if (summaries.length === 0) {
+      console.log(chalk.gray(`\n📊 ${title}: no token usage recorded\n`));
+      return;
+    }
+
+    console.log(chalk.cyan(`\n╭─ ${title}`));
+    for (const summary of summaries) {
+      console.log(`${chalk.cyan('├─')} ${chalk.bold.white(summary.model)} ${chalk.gray(this.formatTokenUsage(summary.usage))} ${chalk.yellow(this.formatCost(summary.cost))}`);
+    }
+
+    const priced = summaries.filter(summary => summary.cost !== undefined);
+    const total = priced.reduce((sum, summary) => sum + summary.cost!, 0);
+    const unpriced = summaries.length - priced.length;
+    const note = unpriced > 0 ? chalk.gray(` (${unpriced} model${unpriced === 1 ? '' : 's'} without a price)`) : '';
+    console.log(`${chalk.cyan('╰─')} 💰 Total: ${chalk.bold.yellow(this.formatCost(total))}${note}\n`);
+  }
+
+  static formatContextFit(fit: { droppedMessages: number; truncatedToolResults: number; summarizedMessages: number }): string {
+    const parts: string[] = [];
+    if (fit.summarizedMessages > 0) parts.push(`summarized ${fit.summarizedMessages} older messages`);
+    if (fit.truncatedToolResults > 0) parts.push(`truncated ${fit.truncatedToolResults} old tool results`);
+    if (fit.droppedMessages > 0) parts.push(`dropped ${fit.droppedMessages} oldest messages`);
+    return `Context window full: ${parts.join(', ')}`;
+  }
+
+  static formatAttachment(attachment: { kind: 'image' | 'text'; name: string; size: number; truncated?: boolean }): string {
+    const detail = attachment.kind === 'image' ? 'image' : attachment.truncated ? 'text, truncated' : 'text';
+    return `${attachment.name} (${detail}, ${formatBytes(attachment.size)})`;
+  }
+
+  static showAttachments(attachments: Array<{ kind: 'image' | 'text'; name: string; size: number; truncated?: boolean }>) {
+    if (attachments.length === 0) {
+      console.log(chalk.gray('\n📎 Nothing attached. Use /attach <path> or @path in a message.\n'));
+      return;
+    }
+
+    console.log(chalk.cyan('\n╭─ Attachments for the next message'));
+    attachments.forEach((attachment, index) => {
+      const connector = index === attachments.length - 1 ? '╰─' : '├─';
+      console.log(`${chalk.cyan(connector)} 📎 ${chalk.white(this.formatAttachment(attachment))}`);
+    });
+    console.log('');
+  }
+
+  static showParameters(model: string, parameters: Record<string, unknown>, unsupported: string[]) {
+    const entries = Object.entries(parameters);
+    console.log(chalk.cyan(`\n╭─ Model Parameters ${chalk.gray(`(${model})`)}`));
+    if (entries.length === 0) {
+      console.log(chalk.cyan(`├─ ${chalk.gray('Provider defaults')}`));
+    }
+    for (const [name, value] of entries) {
+      const ignored = unsupported.includes(name) ? chalk.yellow(' (not supported by this model, not sent)') : '';
+      console.log(chalk.cyan(`├─ ${chalk.bold.white(name)} ${chalk.gray('=')} ${chalk.white(JSON.stringify(value))}${ignored}`));
+    }
+    console.log(chalk.cyan(`╰─ ${chalk.gray('Change with /set <parameter> <value>, reset with /set <parameter> default')}\n`));
+  }
+
+  static showPersonas(personas: Array<{ name: string; description?: string; model?: string }>, current?: string) {
+    console.log(chalk.cyan('\n╭─ Personas'));
+    personas.forEach((persona, index) => {
+      const isLast = index === personas.length - 1;
+      const connector = isLast ? '╰─' : '├─';
+      const marker = persona.name === current ? chalk.green('●') : ' ';
+      const model = persona.model ? chalk.gray(` [${persona.model}]`) : '';
+      const description = persona.description ? chalk.gray(` - ${persona.description}`) : '';
+
+      console.log(`${chalk.cyan(connector)} ${marker} ${chalk.bold.white(persona.name)}${model}${description}`);
+    });
+    console.log('');
+  }
+}
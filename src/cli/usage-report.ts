@@ -0,0 +1,23 @@
+import { UIHelpers } from './ui.js';
+import { SessionStore } from './sessions.js';
+import { loadConfig } from './config.js';
+import { summarizeUsage } from './usage.js';
+import type { UsageOptions } from '../types/index.js';
+
+/**
+ * Print token usage and cost totals across saved sessions
+ */
+export async function showUsageReport(options: UsageOptions): Promise<void> {
+  const config = await loadConfig(options.config);
+  const sessionStore = new SessionStore(config.sessions?.directory);
+
+  const sessions = options.session
+    ? [await sessionStore.load(options.session)]
+    : await sessionStore.list();
+
+  const title = options.session
+    ? `Usage for session ${sessions[0].name || sessions[0].id}`
+    : `Usage across ${sessions.length} saved session${sessions.length === 1 ? '' : 's'}`;
+
+  UIHelpers.showUsage(title, summarizeUsage(sessions, config.pricing));
+}
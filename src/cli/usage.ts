@@ -0,0 +1,91 @@
+import type { ChatSession, ModelPrice, TokenUsage } from '../types/index.js';
+
+// US dollars per million tokens by model name prefix; the longest matching prefix wins
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gpt-5': { input: 1.25, output: 10, cachedInput: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cachedInput: 0.025 },
+  'gpt-5-nano': { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  'o1': { input: 15, output: 60, cachedInput: 7.5 },
+  'o1-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  'o3': { input: 2, output: 8, cachedInput: 0.5 },
+  'o3-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  'o4-mini': { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+  'claude-haiku-4-5': { input: 1, output: 5, cachedInput: 0.1 },
+  'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 }
+};
+
+export interface UsageSummary {
+  model: string;
+  usage: TokenUsage;
+  // Undefined when there is no price for the model
+  cost?: number;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, cachedTokens: 0 };
+}
+
+export function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.cachedTokens += usage.cachedTokens;
+  return total;
+}
+
+export function getModelPrice(model: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | undefined {
+  const prices = { ...MODEL_PRICES, ...overrides };
+  const match = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? prices[match] : undefined;
+}
+
+/**
+ * Cost in US dollars, or undefined when the model has no known price
+ */
+export function calculateCost(usage: TokenUsage, price?: ModelPrice): number | undefined {
+  if (!price) return undefined;
+
+  const uncached = usage.promptTokens - usage.cachedTokens;
+  return (
+    uncached * price.input +
+    usage.cachedTokens * (price.cachedInput ?? price.input) +
+    usage.completionTokens * price.output
+  ) / 1_000_000;
+}
+
+/**
+ * Record a turn's usage against the session's model
+ */
+export function recordSessionUsage(session: ChatSession, model: string, usage: TokenUsage): void {
+  session.usage = session.usage || {};
+  session.usage[model] = addUsage(session.usage[model] || emptyUsage(), usage);
+}
+
+/**
+ * Per-model totals with costs, across one or more sessions
+ */
+export function summarizeUsage(sessions: ChatSession[], pricing?: Record<string, ModelPrice>): UsageSummary[] {
+  const totals = new Map<string, TokenUsage>();
+
+  for (const session of sessions) {
+    for (const [model, usage] of Object.entries(session.usage || {})) {
+      totals.set(model, addUsage(totals.get(model) || emptyUsage(), usage));
+    }
+  }
+
+  return [...totals.entries()]
+    .map(([model, usage]) => ({ model, usage, cost: calculateCost(usage, getModelPrice(model, pricing)) }))
+    .sort((a, b) => (b.cost ?? 0) - (a.cost ?? 0));
+}
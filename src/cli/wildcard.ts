@@ -0,0 +1,10 @@
+/**
+ * Match a whole name against a pattern where `*` stands for any run of characters
+ */
+export function wildcardToRegExp(pattern: string): RegExp {
+  return new RegExp('^' + pattern.split('*').map(escapeRegExp).join('.*') + '$');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
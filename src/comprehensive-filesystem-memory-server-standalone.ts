@@ -1,6 +1,8 @@
 #!/usr/bin/env node
 
 import { ComprehensiveFilesystemMemoryServer } from './mcp/comprehensive-filesystem-memory-server.js';
+import { parseTransportArgs } from './mcp/http-transport.js';
+import type { HttpServeOptions } from './mcp/http-transport.js';
 
 // Default directories - can be overridden by command line arguments
 const defaultDirectories = [
@@ -11,7 +13,14 @@ const defaultDirectories = [
 const memoryFilePath = './comprehensive-memory.json';
 
 async function main() {
-  const args = process.argv.slice(2);
+  let args: string[];
+  let http: HttpServeOptions | undefined;
+  try {
+    ({ http, rest: args } = parseTransportArgs(process.argv.slice(2)));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
   
   // Parse optional config file argument
   let configFilePath: string | undefined;
@@ -53,7 +62,7 @@ async function main() {
     process.exit(0);
   });
 
-  await server.start();
+  await server.start(http);
 }
 
 main().catch((error) => {
@@ -1,10 +1,19 @@
 #!/usr/bin/env node
 
 import { FilesystemServer } from './mcp/filesystem-server.js';
+import { parseTransportArgs } from './mcp/http-transport.js';
+import type { HttpServeOptions } from './mcp/http-transport.js';
 
 async function main() {
   // Get allowed directories from command line arguments
-  const args = process.argv.slice(2);
+  let args: string[];
+  let http: HttpServeOptions | undefined;
+  try {
+    ({ http, rest: args } = parseTransportArgs(process.argv.slice(2)));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
   
   // Parse optional config file argument
   let configFilePath: string | undefined;
@@ -23,7 +32,7 @@ async function main() {
   
   if (allowedDirectories.length === 0) {
     console.error('Error: At least one allowed directory must be specified');
-    console.error('Usage: node filesystem-server-standalone.js [--config-file=path] <directory1> [directory2] ...');
+    console.error('Usage: node filesystem-server-standalone.js [--config-file=path] [--transport http] [--port 3000] [--host 127.0.0.1] <directory1> [directory2] ...');
     console.error('Example: node filesystem-server-standalone.js --config-file=./fs-config.json /Users/username/Documents /Users/username/Projects');
     process.exit(1);
   }
@@ -53,7 +62,7 @@ async function main() {
   });
 
   try {
-    await server.start();
+    await server.start(http);
   } catch (error) {
     console.error('Failed to start Filesystem Server:', error);
     process.exit(1);
@@ -2,10 +2,27 @@
 
 import { Command } from 'commander';
 import { startChat } from './cli/chat.js';
+import { runAsk } from './cli/ask.js';
+import { showUsageReport } from './cli/usage-report.js';
+import { showModelList } from './cli/models-report.js';
 import chalk from 'chalk';
 
 const program = new Command();
 
+// Lets an option be given more than once
+const collect = (value: string, previous: string[] = []) => [...previous, value];
+
+// Model parameter switches shared by chat and ask
+const addModelParameterOptions = (command: Command) => command
+  .option('--temperature <n>', 'Sampling temperature (0-2)')
+  .option('--top-p <n>', 'Nucleus sampling probability mass (0-1)')
+  .option('--max-tokens <n>', 'Maximum tokens in each reply')
+  .option('--seed <n>', 'Seed for more repeatable sampling')
+  .option('--stop <sequence>', 'Stop sequence (repeat for more than one)', collect)
+  .option('--presence-penalty <n>', 'Presence penalty (-2 to 2)')
+  .option('--frequency-penalty <n>', 'Frequency penalty (-2 to 2)')
+  .option('--reasoning-effort <level>', 'Reasoning effort for reasoning models: minimal, low, medium or high');
+
 // Enhanced ASCII art for the help command
 const showBanner = () => {
   console.log(chalk.cyan(`
@@ -42,11 +59,13 @@ ${chalk.cyan('Examples:')}
   ${chalk.gray('$')} ${chalk.white('ai-chat chat -m gpt-3.5-turbo')}    ${chalk.dim('# Use specific model')}
   ${chalk.gray('$')} ${chalk.white('ai-chat chat -s ./my-server')}       ${chalk.dim('# Connect to MCP server')}
   ${chalk.gray('$')} ${chalk.white('ai-chat chat -c ./config.json')}     ${chalk.dim('# Use custom config')}
+  ${chalk.gray('$')} ${chalk.white('ai-chat chat --resume')}            ${chalk.dim('# Resume the most recent session')}
+  ${chalk.gray('$')} ${chalk.white('git diff | ai-chat ask "summarize"')} ${chalk.dim('# One-shot answer for scripts')}
 
 ${chalk.cyan('Tips:')}
   ${chalk.gray('•')} Type ${chalk.yellow('/help')} in chat for interactive commands
   ${chalk.gray('•')} Use ${chalk.yellow('/clear')} to clear the screen
-  ${chalk.gray('•')} Press ${chalk.yellow('Ctrl+C')} to exit gracefully
+  ${chalk.gray('•')} Press ${chalk.yellow('Ctrl+C')} to stop a response, twice to exit
   ${chalk.gray('•')} Use ${chalk.yellow('/exit')} or ${chalk.yellow('/quit')} to leave chat
 
 ${chalk.cyan('Configuration:')}
@@ -56,16 +75,38 @@ ${chalk.dim('For more information, visit: https://github.com/your-repo/ai-chat')
 `;
   });
 
-program
+addModelParameterOptions(program
   .command('chat')
   .description('🚀 Start an interactive AI chat session')
-  .option('-m, --model <model>', 'OpenAI model to use (e.g., gpt-4o, gpt-3.5-turbo)', 'gpt-4o')
-  .option('-s, --server <path>', 'Path to MCP server executable')
+  .option('-m, --model <model>', 'Model to use (e.g., gpt-4o, or provider:model such as anthropic:claude-sonnet-4-5)')
+  .option('--provider <name>', 'Provider from the config file to send requests to (default: openai)')
+  .option('-s, --server <path|url>', 'Path to MCP server executable, or the URL of a Streamable HTTP server')
   .option('-c, --config <path>', 'Path to configuration file (JSON format)')
+  .option('--max-tool-iterations <n>', 'Maximum rounds of tool calls per message (default: 10)')
+  .option('-r, --resume [id]', 'Resume a saved session (the most recent one if no id is given)')
+  .option('-p, --persona <name>', 'Persona from the config file to chat as')
+  .option('--yolo', 'Run every tool call without asking')
+  .option('--read-only', 'Only allow read-only tools')
+  .option('--record <file>', 'Append every model request and streamed response to a JSONL file')
+  .option('--replay <file>', 'Play back a recorded JSONL file instead of calling the model'))
   .addHelpText('after', `
 ${chalk.cyan('Chat Commands (use inside the chat):')}
   ${chalk.yellow('/help')}    Show available commands
   ${chalk.yellow('/clear')}   Clear the screen
+  ${chalk.yellow('/persona [name]')} List personas or switch to one
+  ${chalk.yellow('/model [provider:]model')} Show or switch the model and provider
+  ${chalk.yellow('/context')} Show context window usage
+  ${chalk.yellow('/attach [path|clear]')} Attach an image or text file to the next message (or use @path)
+  ${chalk.yellow('/set [name value]')} Show or change model parameters (temperature, top_p, ...)
+  ${chalk.yellow('/schema [path|off]')} Require replies to match a JSON Schema file
+  ${chalk.yellow('/thinking [on|off]')} Show the last reply's reasoning, or toggle reasoning summaries
+  ${chalk.yellow('/servers')} Show MCP server health, uptime and restarts
+  ${chalk.yellow('/resources [server]')} Browse MCP resources; read|subscribe|unsubscribe <server:uri> (or use @server:uri)
+  ${chalk.yellow('/prompts')} List MCP server prompts, run as /<server>:<prompt> [name=value ...] (Tab completes)
+  ${chalk.yellow('/usage')}   Show token usage and cost for this session
+  ${chalk.yellow('/sessions')} List saved sessions
+  ${chalk.yellow('/load <id>')} Load a saved session
+  ${chalk.yellow('/save [name]')} Save the current session, optionally naming it
   ${chalk.yellow('/exit')}    Exit the chat session
   ${chalk.yellow('/quit')}    Exit the chat session
 `)
@@ -82,6 +123,76 @@ ${chalk.cyan('Chat Commands (use inside the chat):')}
     }
   });
 
+addModelParameterOptions(program
+  .command('ask')
+  .description('💬 Ask a single question and print the answer (reads stdin when piped)')
+  .argument('[prompt...]', 'The prompt; piped stdin is appended to it')
+  .option('-m, --model <model>', 'Model to use (e.g., gpt-4o, or provider:model such as anthropic:claude-sonnet-4-5)')
+  .option('--provider <name>', 'Provider from the config file to send requests to (default: openai)')
+  .option('-s, --server <path|url>', 'Path to MCP server executable, or the URL of a Streamable HTTP server')
+  .option('-c, --config <path>', 'Path to configuration file (JSON format)')
+  .option('-f, --format <format>', 'Output format: text, markdown or json', 'text')
+  .option('-p, --persona <name>', 'Persona from the config file to answer as')
+  .option('--yolo', 'Run every tool call, including ones that would need approval')
+  .option('--read-only', 'Only allow read-only tools')
+  .option('--record <file>', 'Append every model request and streamed response to a JSONL file')
+  .option('--replay <file>', 'Play back a recorded JSONL file instead of calling the model')
+  .option('--schema <file>', 'JSON Schema the reply must match; only the validated JSON is printed')
+  .option('--schema-retries <n>', 'Times to re-prompt with the validation errors (default: 2)')
+  .option('--max-tool-iterations <n>', 'Maximum rounds of tool calls (default: 10)'))
+  .addHelpText('after', `
+${chalk.cyan('Examples:')}
+  ${chalk.gray('$')} ${chalk.white('ai-chat ask "What is MCP?"')}
+  ${chalk.gray('$')} ${chalk.white('git diff | ai-chat ask "write a commit message"')}
+  ${chalk.gray('$')} ${chalk.white('ai-chat ask -f json -c config.json "list my projects"')}
+  ${chalk.gray('$')} ${chalk.white('ai-chat ask --schema person.schema.json "who wrote Dune?"')}
+
+${chalk.cyan('Exit codes:')}
+  0  Success
+  1  API or configuration error
+  2  One or more tool calls failed
+  3  The reply did not match --schema
+`)
+  .action(async (promptArgs: string[], options) => {
+    try {
+      process.exitCode = await runAsk(promptArgs, options);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('usage')
+  .description('💰 Show token usage and cost across saved sessions')
+  .option('-c, --config <path>', 'Path to configuration file (JSON format)')
+  .option('--session <id>', 'Only count one session (id, name or id prefix)')
+  .action(async (options) => {
+    try {
+      await showUsageReport(options);
+    } catch (error) {
+      console.error(`\n${chalk.red('❌ Error:')} ${error instanceof Error ? error.message : 'Unknown error'}`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('models')
+  .description('🤖 List the models your key can use, with context size and capabilities')
+  .option('-c, --config <path>', 'Path to configuration file (JSON format)')
+  .option('--provider <name>', 'Provider from the config file to list (default: openai)')
+  .option('--refresh', 'Fetch the list again instead of using the cache')
+  .option('--all', 'Include embedding, audio, image and moderation models')
+  .option('--json', 'Print the list as JSON')
+  .action(async (options) => {
+    try {
+      await showModelList(options);
+    } catch (error) {
+      console.error(`\n${chalk.red('❌ Error:')} ${error instanceof Error ? error.message : 'Unknown error'}`);
+      process.exitCode = 1;
+    }
+  });
+
 program
   .command('servers')
   .description('📋 List available MCP servers and configuration info')
@@ -90,6 +201,7 @@ program
     console.log(chalk.cyan('\n╭─ Available MCP Servers'));
     console.log(chalk.cyan('├─ 🏗️  File system server (built-in)'));
     console.log(chalk.cyan('├─ ⚙️  Custom servers via --server option'));
+    console.log(chalk.cyan('├─ 🌐 Remote servers over Streamable HTTP or SSE'));
     console.log(chalk.cyan('╰─ 📁 Custom servers via config file\n'));
     
     console.log(chalk.cyan('Configuration Options:'));
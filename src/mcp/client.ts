@@ -1,41 +1,63 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import type { MCPTool, MCPServerConfig } from '../types/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  McpError,
+  PromptListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  MCPPrompt,
+  MCPPromptMessage,
+  MCPResource,
+  MCPResourceContents,
+  MCPResourceTemplate,
+  MCPServerConfig,
+  MCPServerHealth,
+  MCPServerStatus,
+  MCPTool,
+  RetryConfig
+} from '../types/index.js';
+import { resolveRetryConfig, retryDelayMs, sleep } from '../providers/retry.js';
+
+// `${NAME}` in a header value, replaced by the environment variable NAME
+const ENV_REFERENCE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export const DEFAULT_RECONNECT_CONFIG: Required<RetryConfig> = {
+  maxRetries: 10,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000
+};
 
 export class MCPClient {
   private client: Client | null = null;
-  private transport: StdioClientTransport | null = null;
+  private transport: Transport | null = null;
   private serverConfig: MCPServerConfig | null = null;
   private tools: MCPTool[] = [];
+  private prompts: MCPPrompt[] = [];
+  private status: MCPServerStatus = 'disconnected';
+  private connectedSince?: Date;
+  private restarts = 0;
+  private lastError?: string;
+  private nextAttemptAt?: Date;
+  // Aborted by disconnect() to stop a reconnect in progress
+  private reconnectController?: AbortController;
+
+  // Resource URIs subscribed to, renewed after a reconnect
+  private subscriptions = new Set<string>();
+
+  // Called when the connection is lost, restored or given up on
+  onStatusChange?: (client: MCPClient) => void;
+  // Called when the server says a subscribed resource changed
+  onResourceUpdated?: (uri: string) => void;
 
   async connect(serverConfig: MCPServerConfig): Promise<void> {
     try {
       this.serverConfig = serverConfig;
-      
-      // Create transport and client
-      this.transport = new StdioClientTransport({
-        command: serverConfig.command,
-        args: serverConfig.args || [],
-        env: serverConfig.env
-      });
-
-      this.client = new Client(
-        {
-          name: 'openai-cli-client',
-          version: '1.0.0'
-        },
-        {
-          capabilities: {}
-        }
-      );
-
-      // Connect to the server
-      await this.client.connect(this.transport);
-
-      // Get available tools
-      await this.refreshTools();
-
-      console.log(`Connected to MCP server: ${serverConfig.name}`);
+      await this.open();
+      console.error(`Connected to MCP server: ${serverConfig.name}`);
     } catch (error) {
       console.error(`Failed to connect to MCP server ${serverConfig.name}:`, error);
       throw error;
@@ -43,13 +65,27 @@ export class MCPClient {
   }
 
   async disconnect(): Promise<void> {
-    if (this.client) {
-      await this.client.close();
-      this.client = null;
+    this.reconnectController?.abort();
+    this.reconnectController = undefined;
+    this.nextAttemptAt = undefined;
+    this.connectedSince = undefined;
+    this.status = 'disconnected';
+
+    // Cleared first, so the close they cause isn't taken for a lost connection
+    const client = this.client;
+    const transport = this.transport;
+    this.client = null;
+    this.transport = null;
+
+    // Let an HTTP server drop the session now rather than when it times out
+    if (transport instanceof StreamableHTTPClientTransport && transport.sessionId) {
+      await transport.terminateSession().catch(() => undefined);
+    }
+    if (client) {
+      await client.close();
     }
-    if (this.transport) {
-      await this.transport.close();
-      this.transport = null;
+    if (transport) {
+      await transport.close();
     }
   }
 
@@ -72,33 +108,354 @@ export class MCPClient {
     }
   }
 
+  async refreshPrompts(): Promise<void> {
+    const client = this.client;
+    if (!client?.getServerCapabilities()?.prompts) {
+      this.prompts = [];
+      return;
+    }
+
+    try {
+      const prompts: MCPPrompt[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await client.listPrompts(cursor ? { cursor } : undefined);
+        prompts.push(...page.prompts);
+        cursor = page.nextCursor;
+      } while (cursor);
+      this.prompts = prompts;
+    } catch (error) {
+      console.error('Failed to refresh prompts:', error);
+      this.prompts = [];
+    }
+  }
+
+  /**
+   * The server's tools, as last listed. They are kept while the server is
+   * down, so it comes back with the same names.
+   */
   getTools(): MCPTool[] {
     return this.tools;
   }
 
-  async callTool(name: string, args: any): Promise<any> {
-    if (!this.client) {
-      throw new Error('Client not connected');
-    }
+  /**
+   * Call a tool on the server. Aborting the signal sends a cancellation to the
+   * server and rejects the call.
+   */
+  async callTool(name: string, args: any, signal?: AbortSignal): Promise<any> {
+    const client = this.requireClient();
 
     try {
-      const response = await this.client.callTool({
+      const response = await client.callTool({
         name,
         arguments: args
-      });
+      }, undefined, { signal });
 
       return response.content;
     } catch (error) {
-      console.error(`Failed to call tool ${name}:`, error);
+      if (!signal?.aborted) {
+        console.error(`Failed to call tool ${name}:`, error);
+        // Errors the server answered with leave the connection usable; anything
+        // else (a refused connection, an expired HTTP session) means it's gone
+        if (!(error instanceof McpError)) {
+          this.connectionLost(client, error);
+        }
+      }
       throw error;
     }
   }
 
+  getPrompts(): MCPPrompt[] {
+    return this.prompts;
+  }
+
+  async getPrompt(name: string, args: Record<string, string>): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    return this.requireClient().getPrompt({ name, arguments: args });
+  }
+
+  /**
+   * Values the server suggests for a prompt argument, given what was typed so
+   * far; none when the server doesn't do completions
+   */
+  async completePromptArgument(promptName: string, argumentName: string, value: string): Promise<string[]> {
+    const client = this.client;
+    if (!client?.getServerCapabilities()?.completions) {
+      return [];
+    }
+
+    const response = await client.complete({
+      ref: { type: 'ref/prompt', name: promptName },
+      argument: { name: argumentName, value }
+    });
+    return response.completion.values;
+  }
+
+  supportsResources(): boolean {
+    return Boolean(this.client?.getServerCapabilities()?.resources);
+  }
+
+  async listResources(): Promise<MCPResource[]> {
+    const client = this.requireClient();
+    const resources: MCPResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listResources(cursor ? { cursor } : undefined);
+      resources.push(...page.resources);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    const client = this.requireClient();
+    const templates: MCPResourceTemplate[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listResourceTemplates(cursor ? { cursor } : undefined);
+      templates.push(...page.resourceTemplates);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return templates;
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    const response = await this.requireClient().readResource({ uri });
+    return response.contents;
+  }
+
+  /**
+   * Ask to be told when a resource changes, through onResourceUpdated
+   */
+  async subscribeResource(uri: string): Promise<void> {
+    const client = this.requireClient();
+    if (!client.getServerCapabilities()?.resources?.subscribe) {
+      throw new Error(`MCP server ${this.getServerName()} does not support resource subscriptions`);
+    }
+    await client.subscribeResource({ uri });
+    this.subscriptions.add(uri);
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    if (!this.subscriptions.delete(uri)) {
+      throw new Error(`Not subscribed to ${uri}`);
+    }
+    // Nothing to tell a server that is down; it forgot the subscription anyway
+    await this.client?.unsubscribeResource({ uri });
+  }
+
+  getSubscriptions(): string[] {
+    return [...this.subscriptions];
+  }
+
   isConnected(): boolean {
-    return this.client !== null;
+    return this.status === 'connected';
+  }
+
+  getStatus(): MCPServerStatus {
+    return this.status;
+  }
+
+  getHealth(): MCPServerHealth {
+    return {
+      name: this.getServerName(),
+      transport: this.serverConfig?.transport || 'stdio',
+      status: this.status,
+      connectedSince: this.connectedSince,
+      restarts: this.restarts,
+      tools: this.tools.length,
+      lastError: this.lastError,
+      nextAttemptAt: this.nextAttemptAt
+    };
+  }
+
+  getServerConfig(): MCPServerConfig | null {
+    return this.serverConfig;
   }
 
   getServerName(): string {
     return this.serverConfig?.name || 'Unknown';
   }
-} 
\ No newline at end of file
+
+  /**
+   * Start the server (or open the HTTP connection) and list its tools
+   */
+  private async open(signal?: AbortSignal): Promise<void> {
+    const transport = createTransport(this.serverConfig!);
+    const client = new Client(
+      {
+        name: 'openai-cli-client',
+        version: '1.0.0'
+      },
+      {
+        capabilities: {}
+      }
+    );
+
+    // A stdio server that exits, or a transport that fails for good, closes the client
+    client.onclose = () => this.connectionLost(client, 'Connection closed');
+    client.onerror = error => {
+      this.lastError = error.message;
+    };
+
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      this.onResourceUpdated?.(notification.params.uri);
+    });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+      await this.refreshPrompts();
+    });
+
+    await client.connect(transport);
+
+    // disconnect() was called while this connection was being made
+    if (signal?.aborted) {
+      await client.close();
+      return;
+    }
+
+    this.client = client;
+    this.transport = transport;
+    await this.refreshTools();
+    await this.refreshPrompts();
+
+    // A restarted server starts without the subscriptions made before
+    for (const uri of this.subscriptions) {
+      await client.subscribeResource({ uri }).catch(error => {
+        console.error(`Failed to renew subscription to ${uri}:`, error);
+      });
+    }
+
+    this.status = 'connected';
+    this.connectedSince = new Date();
+  }
+
+  private requireClient(): Client {
+    if (!this.client) {
+      throw new Error(this.status === 'reconnecting'
+        ? `MCP server ${this.getServerName()} is unavailable while it reconnects`
+        : 'Client not connected');
+    }
+    return this.client;
+  }
+
+  private connectionLost(client: Client, error: unknown): void {
+    // Closes from disconnect(), or from a connection already replaced, need nothing
+    if (client !== this.client) {
+      return;
+    }
+
+    this.client = null;
+    this.transport = null;
+    this.connectedSince = undefined;
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    // Stops an HTTP transport's own retries, or a stdio server that is still running
+    client.close().catch(() => undefined);
+    void this.reconnect();
+  }
+
+  /**
+   * Try to connect again, backing off between attempts, until it works or the
+   * configured retries run out
+   */
+  private async reconnect(): Promise<void> {
+    const config = resolveRetryConfig({ ...DEFAULT_RECONNECT_CONFIG, ...this.serverConfig?.reconnect });
+    if (config.maxRetries <= 0) {
+      this.setStatus('disconnected');
+      return;
+    }
+
+    const controller = new AbortController();
+    this.reconnectController = controller;
+    this.setStatus('reconnecting');
+
+    for (let attempt = 0; attempt < config.maxRetries; attempt++) {
+      const delay = retryDelayMs(undefined, attempt, config) ?? config.maxDelayMs;
+      this.nextAttemptAt = new Date(Date.now() + delay);
+
+      try {
+        await sleep(delay, controller.signal);
+        await this.open(controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        this.lastError = error instanceof Error ? error.message : String(error);
+        continue;
+      }
+
+      if (controller.signal.aborted) {
+        return;
+      }
+      this.restarts++;
+      this.nextAttemptAt = undefined;
+      this.reconnectController = undefined;
+      this.onStatusChange?.(this);
+      return;
+    }
+
+    this.nextAttemptAt = undefined;
+    this.reconnectController = undefined;
+    this.setStatus('disconnected');
+  }
+
+  private setStatus(status: MCPServerStatus): void {
+    this.status = status;
+    this.onStatusChange?.(this);
+  }
+}
+
+/**
+ * Build the transport a server config asks for
+ */
+export function createTransport(serverConfig: MCPServerConfig): Transport {
+  const transport = serverConfig.transport || 'stdio';
+
+  if (transport === 'stdio') {
+    if (!serverConfig.command) {
+      throw new Error(`MCP server ${serverConfig.name} needs a command`);
+    }
+    return new StdioClientTransport({
+      command: serverConfig.command,
+      args: serverConfig.args || [],
+      env: serverConfig.env
+    });
+  }
+
+  if (transport !== 'http' && transport !== 'sse') {
+    throw new Error(`Unknown transport ${transport} for MCP server ${serverConfig.name}. Use stdio, http or sse.`);
+  }
+
+  if (!serverConfig.url) {
+    throw new Error(`MCP server ${serverConfig.name} needs a url for the ${transport} transport`);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(serverConfig.url);
+  } catch {
+    throw new Error(`Invalid url for MCP server ${serverConfig.name}: ${serverConfig.url}`);
+  }
+
+  const requestInit = { headers: expandHeaders(serverConfig) };
+  return transport === 'http'
+    ? new StreamableHTTPClientTransport(url, { requestInit })
+    : new SSEClientTransport(url, { requestInit });
+}
+
+/**
+ * Fill `${VAR}` references in the configured headers from the environment,
+ * so tokens don't have to be written into the config file
+ */
+function expandHeaders(serverConfig: MCPServerConfig): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(serverConfig.headers || {})) {
+    headers[name] = value.replace(ENV_REFERENCE_PATTERN, (_, variable: string) => {
+      const resolved = process.env[variable];
+      if (resolved === undefined) {
+        throw new Error(`Environment variable ${variable} for the ${name} header of MCP server ${serverConfig.name} is not set`);
+      }
+      return resolved;
+    });
+  }
+  return headers;
+}
@@ -1,8 +1,24 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { McpHttpServer } from './http-transport.js';
+import {
+  ENTITY_RESOURCE_TEMPLATE,
+  FILE_RESOURCE_TEMPLATE,
+  ResourceSubscriptions,
+  entityResourceText,
+  listEntityResources,
+  listFileResources,
+  readEntityResource,
+  readFileResource
+} from './resources.js';
+import { registerMemoryPrompts } from './prompts.js';
+import type { HttpServeOptions } from './http-transport.js';
 import { 
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
   CallToolResult,
   TextContent
@@ -20,11 +36,17 @@ import type {
 
 export class ComprehensiveFilesystemMemoryServer {
   private server: Server;
+  private httpServer?: McpHttpServer;
   private allowedDirectories: string[] = [];
   private memoryFilePath: string;
   private configFilePath: string;
   private memoryGraph: MemoryGraph = { entities: {} };
-  private isInitialized = false;
+  private initialized?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  private resources = new ResourceSubscriptions(
+    uri => entityResourceText(this.memoryGraph, uri),
+    () => Object.keys(this.memoryGraph.entities).sort().join('\n')
+  );
 
   constructor(allowedDirectories: string[] = [], memoryFilePath: string = './comprehensive-memory.json', configFilePath: string = './comprehensive-filesystem-config.json') {
     // Resolve and normalize allowed directories
@@ -35,28 +57,34 @@ export class ComprehensiveFilesystemMemoryServer {
     // Load configuration if it exists
     this.loadConfiguration();
 
-    this.server = new Server(
+    this.server = this.createServer();
+  }
+
+  // One per HTTP session (or a single one for stdio), sharing the memory graph
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'comprehensive-filesystem-memory-server',
         version: '1.0.0'
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
+          completions: {}
         }
       }
     );
 
-    this.setupToolHandlers();
-    this.setupRequestHandlers();
+    this.setupToolHandlers(server);
+    this.setupRequestHandlers(server);
+    return server;
   }
 
   private async ensureInitialized() {
-    if (!this.isInitialized) {
-      await this.loadMemoryGraph();
-      await this.initializeAllowedDirectories();
-      this.isInitialized = true;
-    }
+    this.initialized ??= this.loadMemoryGraph().then(() => this.initializeAllowedDirectories());
+    await this.initialized;
   }
 
   private async loadMemoryGraph() {
@@ -71,7 +99,14 @@ export class ComprehensiveFilesystemMemoryServer {
     }
   }
 
-  private async saveMemoryGraph() {
+  // HTTP sessions share the graph; one write at a time keeps the file whole
+  private saveMemoryGraph(): Promise<void> {
+    this.saving = this.saving.then(() => this.writeMemoryGraph());
+    this.resources.notify();
+    return this.saving;
+  }
+
+  private async writeMemoryGraph() {
     try {
       const data = JSON.stringify(this.memoryGraph, null, 2);
       await fs.writeFile(this.memoryFilePath, data, 'utf-8');
@@ -203,7 +238,7 @@ export class ComprehensiveFilesystemMemoryServer {
     }
   }
 
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server) {
     // ALL FILESYSTEM TOOLS + ALL MEMORY TOOLS
     const tools: Tool[] = [
       // COMPLETE FILESYSTEM TOOLS (with memory tracking)
@@ -567,11 +602,11 @@ export class ComprehensiveFilesystemMemoryServer {
       }
     ];
 
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return { tools };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -654,8 +689,38 @@ export class ComprehensiveFilesystemMemoryServer {
     });
   }
 
-  private setupRequestHandlers() {
-    // Additional request handlers can be added here if needed
+  private setupRequestHandlers(server: Server) {
+    // Memory entities first, then the files they describe
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      await this.ensureInitialized();
+      return {
+        resources: [
+          ...listEntityResources(this.memoryGraph),
+          ...await listFileResources(this.allowedDirectories)
+        ]
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: [ENTITY_RESOURCE_TEMPLATE, FILE_RESOURCE_TEMPLATE] };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      if (uri.startsWith('file:')) {
+        return readFileResource(uri, filePath => this.validatePath(filePath));
+      }
+      await this.ensureInitialized();
+      return readEntityResource(this.memoryGraph, uri);
+    });
+
+    // Only memory entities change in ways the server sees
+    this.resources.register(server);
+
+    registerMemoryPrompts(server, async () => {
+      await this.ensureInitialized();
+      return this.memoryGraph;
+    });
   }
 
   private validatePath(targetPath: string): string {
@@ -1539,14 +1604,23 @@ export class ComprehensiveFilesystemMemoryServer {
     }
   }
 
-  async start() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  /**
+   * Serve over stdio, or over Streamable HTTP when given HTTP options
+   */
+  async start(http?: HttpServeOptions) {
+    if (http) {
+      this.httpServer = new McpHttpServer(() => this.createServer(), http);
+      await this.httpServer.listen();
+    } else {
+      const transport = new StdioServerTransport();
+      await this.server.connect(transport);
+    }
     
     console.error('Comprehensive filesystem-memory server started successfully');
   }
 
   async stop() {
+    await this.httpServer?.close();
     await this.server.close();
   }
 } 
\ No newline at end of file
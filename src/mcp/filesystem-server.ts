@@ -1,8 +1,14 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { McpHttpServer } from './http-transport.js';
+import { FILE_RESOURCE_TEMPLATE, listFileResources, readFileResource } from './resources.js';
+import type { HttpServeOptions } from './http-transport.js';
 import { 
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
   CallToolResult,
   TextContent
@@ -13,6 +19,7 @@ import { glob } from 'glob';
 
 export class FilesystemServer {
   private server: Server;
+  private httpServer?: McpHttpServer;
   private allowedDirectories: string[] = [];
   private configFilePath: string;
 
@@ -24,20 +31,29 @@ export class FilesystemServer {
     // Load configuration if it exists
     this.loadConfiguration();
     
-    this.server = new Server(
+    this.server = this.createServer();
+  }
+
+  /**
+   * Build a Server with the filesystem tools; HTTP mode makes one per session
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'filesystem-server',
         version: '1.0.0'
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          resources: {}
         }
       }
     );
 
-    this.setupToolHandlers();
-    this.setupRequestHandlers();
+    this.setupToolHandlers(server);
+    this.setupRequestHandlers(server);
+    return server;
   }
 
   private async loadConfiguration(): Promise<void> {
@@ -70,7 +86,7 @@ export class FilesystemServer {
     }
   }
 
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server) {
     // Define all available filesystem tools
     const tools: Tool[] = [
       {
@@ -252,11 +268,11 @@ export class FilesystemServer {
       }
     ];
 
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return { tools };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -307,8 +323,19 @@ export class FilesystemServer {
     });
   }
 
-  private setupRequestHandlers() {
-    // Additional request handlers can be added here if needed
+  private setupRequestHandlers(server: Server) {
+    // Files in the allowed directories are offered as file:// resources
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: await listFileResources(this.allowedDirectories) };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: [FILE_RESOURCE_TEMPLATE] };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return readFileResource(request.params.uri, filePath => this.validatePath(filePath));
+    });
   }
 
   private validatePath(targetPath: string): string {
@@ -719,12 +746,21 @@ export class FilesystemServer {
     }
   }
 
-  async start() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  /**
+   * Serve over stdio, or over Streamable HTTP when given HTTP options
+   */
+  async start(http?: HttpServeOptions) {
+    if (http) {
+      this.httpServer = new McpHttpServer(() => this.createServer(), http);
+      await this.httpServer.listen();
+    } else {
+      const transport = new StdioServerTransport();
+      await this.server.connect(transport);
+    }
   }
 
   async stop() {
+    await this.httpServer?.close();
     await this.server.close();
   }
 } 
\ No newline at end of file
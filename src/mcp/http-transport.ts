@@ -0,0 +1,232 @@
+import * as http from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const MCP_HTTP_PATH = '/mcp';
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const AUTH_TOKEN_ENV = 'MCP_AUTH_TOKEN';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpServeOptions {
+  port: number;
+  host?: string;
+  // Clients must send `Authorization: Bearer <token>`; without one anyone who can reach the port may connect
+  token?: string;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}
+
+/**
+ * Serves an MCP server over Streamable HTTP. Every client session gets its own
+ * Server from createServer, so the sessions share whatever state the factory
+ * closes over.
+ */
+export class McpHttpServer {
+  private sessions = new Map<string, Session>();
+  private httpServer: http.Server;
+
+  constructor(
+    private readonly createServer: () => Server,
+    private readonly options: HttpServeOptions
+  ) {
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('Error handling MCP HTTP request:', error);
+        if (!res.headersSent) {
+          sendError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+  }
+
+  async listen(): Promise<void> {
+    const host = this.options.host || DEFAULT_HTTP_HOST;
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    console.error(`Listening on http://${host.includes(':') ? `[${host}]` : host}:${this.options.port}${MCP_HTTP_PATH}`);
+    if (!this.options.token) {
+      console.error(`Warning: ${AUTH_TOKEN_ENV} is not set, so anyone who can reach this port can use the server`);
+    }
+  }
+
+  /**
+   * Stop taking connections and end every open session
+   */
+  async close(): Promise<void> {
+    const closed = new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.server.close().catch(() => undefined)));
+
+    // Idle keep-alive sockets would otherwise hold the server open
+    this.httpServer.closeAllConnections();
+    await closed;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== MCP_HTTP_PATH) {
+      sendError(res, 404, -32601, `Not found; the MCP endpoint is ${MCP_HTTP_PATH}`);
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        // 404 tells the client to start a new session
+        sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendError(res, 400, -32000, 'Bad request: no session id, and not an initialize request');
+      return;
+    }
+
+    const session = await this.openSession();
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  private async openSession(): Promise<Session> {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, session);
+        console.error(`MCP session ${id} opened (${this.sessions.size} active)`);
+      }
+    });
+    const session: Session = { server: this.createServer(), transport };
+
+    // Fires when the client ends the session with DELETE, or on shutdown
+    const previousOnClose = session.server.onclose;
+    session.server.onclose = () => {
+      previousOnClose?.();
+      const id = transport.sessionId;
+      if (id && this.sessions.delete(id)) {
+        console.error(`MCP session ${id} closed (${this.sessions.size} active)`);
+      }
+    };
+
+    await session.server.connect(transport);
+    return session;
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    if (!this.options.token) {
+      return true;
+    }
+    const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+    // Compare digests so the check takes the same time whatever the token's length
+    return Boolean(match) && timingSafeEqual(digest(match![1].trim()), digest(this.options.token));
+  }
+}
+
+/**
+ * Take --transport, --port and --host out of a standalone server's arguments.
+ * Both `--port 3000` and `--port=3000` are accepted; the token comes from
+ * MCP_AUTH_TOKEN so it stays out of the process list.
+ * @returns The HTTP options (undefined for stdio) and the remaining arguments
+ */
+export function parseTransportArgs(args: string[]): { http?: HttpServeOptions; rest: string[] } {
+  const rest: string[] = [];
+  let transport = 'stdio';
+  let port: string | undefined;
+  let host: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].startsWith('--') ? splitFlag(args[i]) : [args[i], undefined];
+    if (flag !== '--transport' && flag !== '--port' && flag !== '--host') {
+      rest.push(args[i]);
+      continue;
+    }
+
+    const value = inline ?? args[++i];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`${flag} needs a value`);
+    }
+    if (flag === '--transport') transport = value;
+    else if (flag === '--port') port = value;
+    else host = value;
+  }
+
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport ${transport}. Use stdio or http.`);
+  }
+  if (transport === 'stdio') {
+    if (port || host) {
+      throw new Error('--port and --host need --transport http');
+    }
+    return { rest };
+  }
+
+  const portNumber = port === undefined ? DEFAULT_HTTP_PORT : Number(port);
+  if (!Number.isInteger(portNumber) || portNumber < 0 || portNumber > 65535) {
+    throw new Error(`Invalid port: ${port}`);
+  }
+
+  return {
+    http: { port: portNumber, host, token: process.env[AUTH_TOKEN_ENV] || undefined },
+    rest
+  };
+}
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const equals = arg.indexOf('=');
+  return equals === -1 ? [arg, undefined] : [arg.slice(0, equals), arg.slice(equals + 1)];
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`body is larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function sendError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
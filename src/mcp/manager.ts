@@ -0,0 +1,329 @@
+import { MCPClient } from './client.js';
+import type {
+  MCPPrompt,
+  MCPPromptMessage,
+  MCPResourceContents,
+  MCPServerConfig,
+  MCPServerHealth,
+  MCPServerResources,
+  MCPTool
+} from '../types/index.js';
+
+const NAMESPACE_SEPARATOR = '__';
+const DEFAULT_MAX_CONCURRENT_TOOL_CALLS = 4;
+
+interface ToolRoute {
+  client: MCPClient;
+  toolName: string;
+}
+
+/**
+ * Caps how many tool calls run at once against a single server
+ */
+class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (this.active >= this.limit) {
+      // The finishing call hands its slot straight to us
+      await this.wait(signal);
+    } else {
+      signal?.throwIfAborted();
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  /**
+   * Wait for a free slot. A call cancelled while it waits leaves the queue
+   * without taking one.
+   */
+  private wait(signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      signal?.throwIfAborted();
+
+      const onAbort = () => {
+        this.queue = this.queue.filter(waiter => waiter !== start);
+        reject(signal!.reason);
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      this.queue.push(start);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+export class MCPServerManager {
+  private clients: MCPClient[] = [];
+  private tools: MCPTool[] = [];
+  private routes = new Map<string, ToolRoute>();
+  private limiters = new Map<MCPClient, ConcurrencyLimiter>();
+  private statusListeners: Array<(health: MCPServerHealth) => void> = [];
+  private resourceListeners: Array<(serverName: string, uri: string) => void> = [];
+
+  /**
+   * Connect to every server in the list. Servers that fail to connect are
+   * reported back instead of aborting the rest.
+   * @param serverConfigs The servers to connect to
+   * @returns The servers that could not be connected, with their errors
+   */
+  async connectAll(serverConfigs: MCPServerConfig[]): Promise<Array<{ server: MCPServerConfig; error: unknown }>> {
+    const failures: Array<{ server: MCPServerConfig; error: unknown }> = [];
+
+    for (const serverConfig of serverConfigs) {
+      try {
+        await this.connect(serverConfig);
+      } catch (error) {
+        failures.push({ server: serverConfig, error });
+      }
+    }
+
+    return failures;
+  }
+
+  async connect(serverConfig: MCPServerConfig): Promise<MCPClient> {
+    if (this.getClient(serverConfig.name)) {
+      throw new Error(`MCP server ${serverConfig.name} is already connected`);
+    }
+
+    const client = new MCPClient();
+    await client.connect(serverConfig);
+
+    client.onStatusChange = () => {
+      // Tools come and go with their server
+      this.rebuildToolIndex();
+      for (const listener of this.statusListeners) {
+        listener(client.getHealth());
+      }
+    };
+
+    client.onResourceUpdated = uri => {
+      for (const listener of this.resourceListeners) {
+        listener(serverConfig.name, uri);
+      }
+    };
+
+    this.clients.push(client);
+    this.limiters.set(client, new ConcurrencyLimiter(
+      Math.max(1, serverConfig.maxConcurrentToolCalls ?? DEFAULT_MAX_CONCURRENT_TOOL_CALLS)
+    ));
+    this.rebuildToolIndex();
+
+    return client;
+  }
+
+  async disconnectAll(): Promise<void> {
+    const clients = this.clients;
+    this.clients = [];
+    this.limiters.clear();
+    this.rebuildToolIndex();
+
+    await Promise.all(clients.map(async client => {
+      try {
+        await client.disconnect();
+      } catch (error) {
+        console.error(`Failed to disconnect from MCP server ${client.getServerName()}:`, error);
+      }
+    }));
+  }
+
+  async refreshTools(): Promise<void> {
+    await Promise.all(this.connectedClients().map(client => client.refreshTools()));
+    this.rebuildToolIndex();
+  }
+
+  /**
+   * Be told when a server loses its connection, gets it back or gives up
+   */
+  onStatusChange(listener: (health: MCPServerHealth) => void): void {
+    this.statusListeners.push(listener);
+  }
+
+  getHealth(): MCPServerHealth[] {
+    return this.clients.map(client => client.getHealth());
+  }
+
+  /**
+   * Be told when a subscribed resource changes
+   */
+  onResourceUpdated(listener: (serverName: string, uri: string) => void): void {
+    this.resourceListeners.push(listener);
+  }
+
+  /**
+   * Resources and templates of every connected server that has any, or of
+   * one server when a name is given
+   */
+  async listResources(serverName?: string): Promise<MCPServerResources[]> {
+    const clients = serverName ? [this.requireClient(serverName)] : this.connectedClients();
+
+    return Promise.all(clients
+      .filter(client => serverName || client.supportsResources())
+      .map(async client => {
+        if (!client.supportsResources()) {
+          throw new Error(`MCP server ${client.getServerName()} has no resources`);
+        }
+        const [resources, templates] = await Promise.all([
+          client.listResources(),
+          client.listResourceTemplates()
+        ]);
+        return {
+          server: client.getServerName(),
+          resources,
+          templates,
+          subscriptions: client.getSubscriptions()
+        };
+      }));
+  }
+
+  /**
+   * Prompts of every connected server, with the server that offers each
+   */
+  getPrompts(): Array<{ server: string; prompt: MCPPrompt }> {
+    return this.connectedClients().flatMap(client =>
+      client.getPrompts().map(prompt => ({ server: client.getServerName(), prompt }))
+    );
+  }
+
+  async getPrompt(serverName: string, name: string, args: Record<string, string>): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    return this.requireClient(serverName).getPrompt(name, args);
+  }
+
+  async completePromptArgument(serverName: string, promptName: string, argumentName: string, value: string): Promise<string[]> {
+    return this.requireClient(serverName).completePromptArgument(promptName, argumentName, value);
+  }
+
+  async readResource(serverName: string, uri: string): Promise<MCPResourceContents[]> {
+    return this.requireClient(serverName).readResource(uri);
+  }
+
+  async subscribeResource(serverName: string, uri: string): Promise<void> {
+    await this.requireClient(serverName).subscribeResource(uri);
+  }
+
+  async unsubscribeResource(serverName: string, uri: string): Promise<void> {
+    await this.requireClient(serverName).unsubscribeResource(uri);
+  }
+
+  /**
+   * Merged tool list across all connected servers. Tools whose names clash
+   * between servers are exposed as `<server>__<tool>`. Servers that are down
+   * have their tools left out until they reconnect.
+   */
+  getTools(): MCPTool[] {
+    return this.tools;
+  }
+
+  /**
+   * Call a tool on the server that owns it. Calls beyond the server's
+   * concurrency limit wait for a free slot.
+   */
+  async callTool(name: string, args: any, signal?: AbortSignal): Promise<any> {
+    const route = this.routes.get(name);
+    if (!route) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const limiter = this.limiters.get(route.client);
+    const call = () => route.client.callTool(route.toolName, args, signal);
+    return limiter ? limiter.run(call, signal) : call();
+  }
+
+  /**
+   * Name of the server that owns a (possibly namespaced) tool
+   */
+  getToolServer(name: string): string | undefined {
+    return this.routes.get(name)?.client.getServerName();
+  }
+
+  /**
+   * The owning server and the tool's own (un-namespaced) name
+   */
+  resolveTool(name: string): { serverName: string; toolName: string; tool?: MCPTool } | undefined {
+    const route = this.routes.get(name);
+    if (!route) return undefined;
+
+    return {
+      serverName: route.client.getServerName(),
+      toolName: route.toolName,
+      tool: route.client.getTools().find(tool => tool.name === route.toolName)
+    };
+  }
+
+  getClient(serverName: string): MCPClient | undefined {
+    return this.clients.find(client => client.getServerName() === serverName);
+  }
+
+  getClients(): MCPClient[] {
+    return this.clients;
+  }
+
+  getServerConfigs(): MCPServerConfig[] {
+    return this.clients
+      .map(client => client.getServerConfig())
+      .filter((serverConfig): serverConfig is MCPServerConfig => serverConfig !== null);
+  }
+
+  getServerNames(): string[] {
+    return this.clients.map(client => client.getServerName());
+  }
+
+  isConnected(): boolean {
+    return this.clients.some(client => client.isConnected());
+  }
+
+  private requireClient(serverName: string): MCPClient {
+    const client = this.getClient(serverName);
+    if (!client) {
+      throw new Error(`Unknown MCP server: ${serverName}`);
+    }
+    return client;
+  }
+
+  private connectedClients(): MCPClient[] {
+    return this.clients.filter(client => client.isConnected());
+  }
+
+  private rebuildToolIndex(): void {
+    const owners = new Map<string, number>();
+    for (const client of this.clients) {
+      for (const tool of client.getTools()) {
+        owners.set(tool.name, (owners.get(tool.name) || 0) + 1);
+      }
+    }
+
+    this.tools = [];
+    this.routes.clear();
+
+    for (const client of this.clients) {
+      for (const tool of client.getTools()) {
+        const exposedName = (owners.get(tool.name) || 0) > 1
+          ? `${client.getServerName()}${NAMESPACE_SEPARATOR}${tool.name}`
+          : tool.name;
+
+        // Routes stay for servers that are down, so calls get a clearer error than an unknown tool
+        if (client.isConnected()) {
+          this.tools.push({ ...tool, name: exposedName });
+        }
+        this.routes.set(exposedName, { client, toolName: tool.name });
+      }
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { MemoryGraph } from '../types/index.js';
+import { entityResourceText, entityUri } from './resources.js';
+
+// The protocol allows at most this many values in one completion
+const MAX_COMPLETIONS = 100;
+// Names of existing entities listed in the remember prompt, so the model reuses them
+const MAX_LISTED_ENTITIES = 100;
+
+export const MEMORY_PROMPTS: Prompt[] = [
+  {
+    name: 'recall',
+    description: 'Recall everything remembered about an entity',
+    arguments: [{ name: 'name', description: 'The person, project or thing to recall', required: true }]
+  },
+  {
+    name: 'remember',
+    description: 'Store facts in the memory graph as entities, observations and relations',
+    arguments: [{ name: 'facts', description: 'What to remember', required: true }]
+  },
+  {
+    name: 'review',
+    description: 'Summarize what the memory graph holds',
+    arguments: [{ name: 'entityType', description: 'Only review entities of this type, such as person' }]
+  }
+];
+
+/**
+ * Answer prompt list, get and completion requests on a server, reading the
+ * graph through loadGraph each time so prompts see the latest memory
+ */
+export function registerMemoryPrompts(server: Server, loadGraph: () => Promise<MemoryGraph>): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: MEMORY_PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getMemoryPrompt(await loadGraph(), request.params.name, request.params.arguments);
+  });
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { ref, argument } = request.params;
+    const values = ref.type === 'ref/prompt'
+      ? completeMemoryPromptArgument(await loadGraph(), ref.name, argument.name, argument.value)
+      : [];
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETIONS),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETIONS
+      }
+    };
+  });
+}
+
+export function getMemoryPrompt(graph: MemoryGraph, name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = MEMORY_PROMPTS.find(candidate => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  for (const argument of prompt.arguments || []) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${argument.name}`);
+    }
+  }
+
+  switch (name) {
+    case 'recall':
+      return recallPrompt(graph, args.name.trim());
+    case 'remember':
+      return rememberPrompt(graph, args.facts.trim());
+    default:
+      return reviewPrompt(graph, args.entityType?.trim());
+  }
+}
+
+/**
+ * Values for a prompt argument that start with what was typed, ignoring case
+ */
+export function completeMemoryPromptArgument(graph: MemoryGraph, promptName: string, argumentName: string, value: string): string[] {
+  const entities = Object.values(graph.entities);
+  let candidates: string[] = [];
+
+  if (promptName === 'recall' && argumentName === 'name') {
+    candidates = entities.map(entity => entity.name);
+  } else if (promptName === 'review' && argumentName === 'entityType') {
+    candidates = [...new Set(entities.map(entity => entity.entityType))];
+  }
+
+  const typed = value.toLowerCase();
+  return candidates
+    .filter(candidate => candidate.toLowerCase().startsWith(typed))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+function recallPrompt(graph: MemoryGraph, name: string): GetPromptResult {
+  // Fall back to a case-insensitive match, since names are typed by hand
+  const entity = graph.entities[name]
+    || Object.values(graph.entities).find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+
+  if (!entity) {
+    return {
+      description: `Recall ${name}`,
+      messages: [userText(`Tell me everything you remember about ${name}. Nothing is stored under that exact name, so look for it with search_nodes first, then open whatever matches with open_nodes.`)]
+    };
+  }
+
+  const uri = entityUri(entity.name);
+  return {
+    description: `Recall ${entity.name}`,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'resource', resource: { uri, mimeType: 'application/json', text: entityResourceText(graph, uri)! } }
+      },
+      userText(`Tell me everything you remember about ${entity.name}, using the memory entry above. Open related entities with open_nodes where they add something, and say plainly what isn't known.`)
+    ]
+  };
+}
+
+function rememberPrompt(graph: MemoryGraph, facts: string): GetPromptResult {
+  const existing = Object.values(graph.entities)
+    .slice(0, MAX_LISTED_ENTITIES)
+    .map(entity => `${entity.name} (${entity.entityType})`);
+
+  const text = [
+    `Remember the following in the memory graph:\n\n${facts}`,
+    'Add observations to entities that already exist with add_observations, create new ones with create_entities, and link them with create_relations. Use the active voice for relation types, such as works_at.',
+    existing.length > 0 ? `Entities already stored: ${existing.join(', ')}` : 'The memory graph is empty so far.'
+  ].join('\n\n');
+
+  return { description: 'Store facts in memory', messages: [userText(text)] };
+}
+
+function reviewPrompt(graph: MemoryGraph, entityType?: string): GetPromptResult {
+  const entities = Object.values(graph.entities)
+    .filter(entity => !entityType || entity.entityType.toLowerCase() === entityType.toLowerCase());
+  const scope = entityType ? `${entityType} entities` : 'entities';
+
+  if (entities.length === 0) {
+    return {
+      description: 'Review memory',
+      messages: [userText(`The memory graph has no ${scope}. Say so, and suggest what would be worth remembering.`)]
+    };
+  }
+
+  return {
+    description: 'Review memory',
+    messages: [
+      userText(`These are all the ${scope} in the memory graph:\n\n${JSON.stringify(entities, null, 2)}`),
+      userText(`Summarize what is remembered, grouped by entity type. Point out entries that look duplicated, contradict each other or have no relations.`)
+    ]
+  };
+}
+
+function userText(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
@@ -0,0 +1,229 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import type { MemoryGraph } from '../types/index.js';
+
+const ENTITY_URI_PREFIX = 'memory://entity/';
+
+// Listing stops here; anything else in the allowed directories can still be read by URI
+const MAX_LISTED_FILES = 500;
+const MAX_FILE_RESOURCE_BYTES = 10 * 1024 * 1024;
+
+// Directories that are rarely worth offering as resources
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', '__pycache__']);
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.xml': 'application/xml',
+  '.js': 'text/javascript',
+  '.ts': 'text/x-typescript',
+  '.py': 'text/x-python',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf'
+};
+
+export const ENTITY_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: `${ENTITY_URI_PREFIX}{name}`,
+  name: 'Memory entity',
+  description: 'An entity from the memory graph with its observations and relations',
+  mimeType: 'application/json'
+};
+
+export const FILE_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: 'file://{path}',
+  name: 'File',
+  description: 'Any file inside the allowed directories'
+};
+
+export function entityUri(name: string): string {
+  return ENTITY_URI_PREFIX + encodeURIComponent(name);
+}
+
+export function listEntityResources(graph: MemoryGraph): Resource[] {
+  return Object.values(graph.entities)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(entity => ({
+      uri: entityUri(entity.name),
+      name: entity.name,
+      description: `${entity.entityType}, ${entity.observations.length} observations`,
+      mimeType: 'application/json'
+    }));
+}
+
+/**
+ * The JSON an entity URI reads as, or undefined when there is no such entity.
+ * Relations pointing at the entity from elsewhere are included as well.
+ */
+export function entityResourceText(graph: MemoryGraph, uri: string): string | undefined {
+  if (!uri.startsWith(ENTITY_URI_PREFIX)) {
+    return undefined;
+  }
+
+  const name = decodeURIComponent(uri.slice(ENTITY_URI_PREFIX.length));
+  const entity = graph.entities[name];
+  if (!entity) {
+    return undefined;
+  }
+
+  const incomingRelations = Object.values(graph.entities)
+    .flatMap(other => other.relations)
+    .filter(relation => relation.to === name);
+
+  return JSON.stringify({ ...entity, incomingRelations }, null, 2);
+}
+
+export function readEntityResource(graph: MemoryGraph, uri: string): ReadResourceResult {
+  const text = entityResourceText(graph, uri);
+  if (text === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+  }
+  return { contents: [{ uri, mimeType: 'application/json', text }] };
+}
+
+/**
+ * Files in the allowed directories, walking breadth-first and skipping hidden
+ * and dependency directories, up to MAX_LISTED_FILES
+ */
+export async function listFileResources(directories: string[]): Promise<Resource[]> {
+  const resources: Resource[] = [];
+
+  for (const root of directories) {
+    const queue = [root];
+    while (queue.length > 0 && resources.length < MAX_LISTED_FILES) {
+      const dir = queue.shift()!;
+      const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        if (entry.name.startsWith('.')) continue;
+        const fullPath = path.join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          if (!SKIPPED_DIRECTORIES.has(entry.name)) queue.push(fullPath);
+        } else if (entry.isFile() && resources.length < MAX_LISTED_FILES) {
+          resources.push({
+            uri: pathToFileURL(fullPath).href,
+            name: path.relative(root, fullPath),
+            mimeType: guessMimeType(fullPath)
+          });
+        }
+      }
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Read a file:// URI, after validatePath has checked it is allowed. Text comes
+ * back as text, anything else base64-encoded.
+ */
+export async function readFileResource(uri: string, validatePath: (filePath: string) => string): Promise<ReadResourceResult> {
+  let filePath: string;
+  try {
+    filePath = validatePath(fileURLToPath(uri));
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+
+  const stats = await fs.stat(filePath).catch(() => undefined);
+  if (!stats?.isFile()) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+  }
+  if (stats.size > MAX_FILE_RESOURCE_BYTES) {
+    throw new McpError(ErrorCode.InvalidParams, `${uri} is larger than ${MAX_FILE_RESOURCE_BYTES} bytes`);
+  }
+
+  const buffer = await fs.readFile(filePath);
+  const mimeType = guessMimeType(filePath);
+  return {
+    contents: [buffer.includes(0) || mimeType.startsWith('image/')
+      ? { uri, mimeType, blob: buffer.toString('base64') }
+      : { uri, mimeType, text: buffer.toString('utf-8') }]
+  };
+}
+
+/**
+ * Tracks which resources each connected Server subscribed to, and tells it
+ * when one changes. `snapshot` returns a resource's current content (or
+ * undefined when it doesn't exist), so only real changes are reported.
+ */
+export class ResourceSubscriptions {
+  private subscribers = new Map<Server, Map<string, string | undefined>>();
+  private listKey?: string;
+
+  constructor(
+    private readonly snapshot: (uri: string) => string | undefined,
+    // Changes whenever the resource list does
+    private readonly currentListKey?: () => string
+  ) {}
+
+  /**
+   * Handle subscribe and unsubscribe requests on a server
+   */
+  register(server: Server): void {
+    this.subscribers.set(server, new Map());
+    this.listKey ??= this.currentListKey?.();
+
+    server.setRequestHandler(SubscribeRequestSchema, async request => {
+      this.subscribers.get(server)?.set(request.params.uri, this.snapshot(request.params.uri));
+      return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      this.subscribers.get(server)?.delete(request.params.uri);
+      return {};
+    });
+
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      previousOnClose?.();
+      this.subscribers.delete(server);
+    };
+  }
+
+  /**
+   * Send updates for subscribed resources that changed, and a list change
+   * notification when resources were added or removed
+   */
+  notify(): void {
+    for (const [server, uris] of this.subscribers) {
+      for (const [uri, last] of uris) {
+        const current = this.snapshot(uri);
+        if (current !== last) {
+          uris.set(uri, current);
+          // A server that isn't connected yet (or any more) has nobody to tell
+          server.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      }
+    }
+
+    if (this.currentListKey) {
+      const listKey = this.currentListKey();
+      if (this.listKey !== undefined && listKey !== this.listKey) {
+        for (const server of this.subscribers.keys()) {
+          server.sendResourceListChanged().catch(() => undefined);
+        }
+      }
+      this.listKey = listKey;
+    }
+  }
+}
+
+function guessMimeType(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'text/plain';
+}
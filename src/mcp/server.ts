@@ -1,8 +1,15 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { McpHttpServer } from './http-transport.js';
+import { ENTITY_RESOURCE_TEMPLATE, ResourceSubscriptions, entityResourceText, listEntityResources, readEntityResource } from './resources.js';
+import { registerMemoryPrompts } from './prompts.js';
+import type { HttpServeOptions } from './http-transport.js';
 import { 
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
   CallToolResult,
   TextContent,
@@ -21,30 +28,50 @@ import type {
 
 export class MemoryServer {
   private server: Server;
+  private httpServer?: McpHttpServer;
   private memoryFilePath: string;
   private memoryGraph: MemoryGraph = { entities: {} };
-  private isInitialized = false;
+  private initialized?: Promise<void>;
+  // Saves queue up so sessions saving at once don't interleave their writes
+  private saving: Promise<void> = Promise.resolve();
+  // Entities are also readable as memory://entity/<name> resources
+  private resources = new ResourceSubscriptions(
+    uri => entityResourceText(this.memoryGraph, uri),
+    () => Object.keys(this.memoryGraph.entities).sort().join('\n')
+  );
 
   constructor(memoryFilePath?: string) {
     this.memoryFilePath = memoryFilePath || process.env.MEMORY_FILE_PATH || './memory.json';
     
-    this.server = new Server(
+    this.server = this.createServer();
+  }
+
+  /**
+   * A Server with every handler registered. Stdio uses one; over HTTP each
+   * session gets its own, all working on this instance's state.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'memory-server',
         version: '1.0.0'
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
+          completions: {}
         }
       }
     );
 
-    this.setupToolHandlers();
-    this.setupRequestHandlers();
+    this.setupToolHandlers(server);
+    this.setupRequestHandlers(server);
+    return server;
   }
 
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server) {
     // Define all available memory tools
     const tools: Tool[] = [
       {
@@ -195,11 +222,11 @@ export class MemoryServer {
       }
     ];
 
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return { tools };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -244,15 +271,33 @@ export class MemoryServer {
     });
   }
 
-  private setupRequestHandlers() {
-    // Add any additional request handlers if needed
+  private setupRequestHandlers(server: Server) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      await this.ensureInitialized();
+      return { resources: listEntityResources(this.memoryGraph) };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: [ENTITY_RESOURCE_TEMPLATE] };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      await this.ensureInitialized();
+      return readEntityResource(this.memoryGraph, request.params.uri);
+    });
+
+    this.resources.register(server);
+
+    registerMemoryPrompts(server, async () => {
+      await this.ensureInitialized();
+      return this.memoryGraph;
+    });
   }
 
   private async ensureInitialized() {
-    if (!this.isInitialized) {
-      await this.loadMemoryGraph();
-      this.isInitialized = true;
-    }
+    // Kept as a promise, so sessions arriving together load the graph only once
+    this.initialized ??= this.loadMemoryGraph();
+    await this.initialized;
   }
 
   private async loadMemoryGraph() {
@@ -266,7 +311,14 @@ export class MemoryServer {
     }
   }
 
-  private async saveMemoryGraph() {
+  private saveMemoryGraph(): Promise<void> {
+    this.saving = this.saving.then(() => this.writeMemoryGraph());
+    // Every change is saved, so this is where subscribers hear about it
+    this.resources.notify();
+    return this.saving;
+  }
+
+  private async writeMemoryGraph() {
     try {
       // Ensure directory exists
       const dir = path.dirname(this.memoryFilePath);
@@ -572,12 +624,21 @@ export class MemoryServer {
     };
   }
 
-  async start() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  /**
+   * Serve over stdio, or over Streamable HTTP when given HTTP options
+   */
+  async start(http?: HttpServeOptions) {
+    if (http) {
+      this.httpServer = new McpHttpServer(() => this.createServer(), http);
+      await this.httpServer.listen();
+    } else {
+      const transport = new StdioServerTransport();
+      await this.server.connect(transport);
+    }
   }
 
   async stop() {
+    await this.httpServer?.close();
     await this.server.close();
   }
 }
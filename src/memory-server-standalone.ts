@@ -1,12 +1,27 @@
 #!/usr/bin/env node
 
 import { MemoryServer } from './mcp/server.js';
+import { parseTransportArgs } from './mcp/http-transport.js';
+import type { HttpServeOptions } from './mcp/http-transport.js';
 import { config } from 'dotenv';
 
 // Load environment variables
 config();
 
 async function main() {
+  let http: HttpServeOptions | undefined;
+  try {
+    const parsed = parseTransportArgs(process.argv.slice(2));
+    if (parsed.rest.length > 0) {
+      throw new Error(`Unknown option: ${parsed.rest[0]}`);
+    }
+    http = parsed.http;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    console.error('Usage: node memory-server-standalone.js [--transport http] [--port 3000] [--host 127.0.0.1]');
+    process.exit(1);
+  }
+
   const memoryFilePath = process.env.MEMORY_FILE_PATH || './memory.json';
   
   console.error(`Starting Memory Server with file: ${memoryFilePath}`);
@@ -28,7 +43,7 @@ async function main() {
   });
 
   try {
-    await server.start();
+    await server.start(http);
   } catch (error) {
     console.error('Failed to start Memory Server:', error);
     process.exit(1);
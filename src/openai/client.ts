@@ -1,24 +1,232 @@
-import OpenAI from 'openai';
-import type { ChatMessage, MCPTool } from '../types/index.js';
+import OpenAI, { AzureOpenAI } from 'openai';
+import type { ChatCompletionContentPart, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { Tool } from 'openai/resources/responses/responses';
+import type { ReasoningEffort as OpenAIReasoningEffort } from 'openai/resources/shared';
+import type { ChatMessage, ChatProvider, ChatStreamChunk, MCPTool, ModelCapabilities, ModelInfo, ModelParameters, OpenAIApi, ReasoningChunk, RetryConfig, TokenUsage } from '../types/index.js';
+import { getModelCapabilities, supportedParameters } from '../providers/capabilities.js';
+import { contentText } from '../providers/content.js';
+import { describeRetryReason, isRetryableError, resolveRetryConfig, retryDelayMs, sleep } from '../providers/retry.js';
+import { readResponseEvents, toResponseInput, toResponseTools } from './responses.js';
+import type { PendingToolCall, StreamResult } from './responses.js';
 
-export class OpenAIClient {
+export interface OpenAIClientOptions {
+  // Provider name shown in the UI and stored in sessions
+  name?: string;
+  // Point at an OpenAI-compatible server (vLLM, llama.cpp, Ollama) or an Azure endpoint
+  baseURL?: string;
+  headers?: Record<string, string>;
+  organization?: string;
+  project?: string;
+  // Use Azure OpenAI; the model is the deployment name
+  azure?: { apiVersion?: string };
+  retry?: RetryConfig;
+  // chat.completions unless set, for every model or by model name prefix
+  api?: OpenAIApi | Record<string, OpenAIApi>;
+  // Responses API built-in tools, sent alongside the MCP tools
+  builtinTools?: Array<Record<string, unknown>>;
+  // Ask chat completions for token usage with stream_options
+  streamUsage?: boolean;
+  // Added to or overriding the built-in capabilities table
+  modelCapabilities?: Record<string, Partial<ModelCapabilities>>;
+}
+
+export class OpenAIClient implements ChatProvider {
+  readonly name: string;
   private client: OpenAI;
   private model: string;
+  private parameters: ModelParameters = {};
+  private modelCapabilities?: Record<string, Partial<ModelCapabilities>>;
+  private retry: Required<RetryConfig>;
+  private api?: OpenAIApi | Record<string, OpenAIApi>;
+  private builtinTools: Array<Record<string, unknown>>;
+  // The last Responses API response and the history it answered
+  private lastResponse?: { id: string; model: string; count: number; history: string };
+  // Cleared if the server turns stream_options down
+  private streamUsage: boolean;
+  // Set once the API refuses reasoning summaries (organizations must be verified for them)
+  private summariesRefused = false;
 
-  constructor(apiKey: string, model: string = 'gpt-4o') {
-    this.client = new OpenAI({ apiKey });
+  constructor(apiKey: string, model: string = 'gpt-4o', options: OpenAIClientOptions = {}) {
+    this.name = options.name || 'openai';
+    this.client = options.azure
+      ? new AzureOpenAI({
+          apiKey,
+          endpoint: options.baseURL,
+          apiVersion: options.azure.apiVersion || '2024-10-21',
+          defaultHeaders: options.headers,
+          // Retries happen in streamChat so they also cover broken streams
+          maxRetries: 0
+        })
+      : new OpenAI({
+          apiKey,
+          baseURL: options.baseURL,
+          organization: options.organization,
+          project: options.project,
+          defaultHeaders: options.headers,
+          maxRetries: 0
+        });
     this.model = model;
+    this.retry = resolveRetryConfig(options.retry);
+    this.modelCapabilities = options.modelCapabilities;
+    this.api = options.api;
+    this.builtinTools = options.builtinTools || [];
+    this.streamUsage = options.streamUsage ?? true;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  getParameters(): ModelParameters {
+    return { ...this.parameters };
+  }
+
+  setParameters(parameters: ModelParameters): void {
+    this.parameters = { ...parameters };
   }
 
   async *streamChat(
     messages: ChatMessage[],
-    tools: MCPTool[] = []
-  ): AsyncGenerator<string | { type: 'tool_call'; tool: string; args: any }, void, unknown> {
-    const openaiMessages = messages.map(msg => ({
-      role: msg.role as 'user' | 'assistant' | 'system',
-      content: msg.content
-    }));
+    tools: MCPTool[] = [],
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamChunk, void, unknown> {
+    const api = this.getApi();
+    // With the Responses API, only what follows the last stored response is sent
+    let continuation = api === 'responses' ? this.continueResponse(messages) : undefined;
+    let result: StreamResult;
+
+    for (let attempt = 0; ; attempt++) {
+      // A retry is a new sample, not a resume, so text from this attempt must be thrown away if it fails
+      let streamed = false;
+
+      try {
+        // A retry starts the response over, so only its tool calls count
+        const stream = continuation
+          ? this.streamResponse(continuation.input, tools, continuation.previousResponseId, signal)
+          : this.streamCompletion(messages, tools, signal);
+
+        let next = await stream.next();
+        while (!next.done) {
+          if (typeof next.value === 'string') {
+            if (next.value) {
+              streamed = true;
+              yield next.value;
+            }
+          } else if (next.value.text) {
+            streamed = true;
+            yield { type: 'reasoning', text: next.value.text };
+          }
+          next = await stream.next();
+        }
+        result = next.value;
+        break;
+      } catch (error) {
+        // Usage is only shown when the server reports it, so go on without
+        if (!continuation && !streamed && this.isStreamUsageRefusal(error)) {
+          this.streamUsage = false;
+          attempt--;
+          continue;
+        }
+
+        if (continuation && !streamed && this.isSummaryRefusal(error)) {
+          this.summariesRefused = true;
+          attempt--;
+          continue;
+        }
+
+        // The stored response may have expired; send the whole history instead
+        if (continuation?.previousResponseId && error instanceof OpenAI.APIError && (error.status === 400 || error.status === 404)) {
+          this.lastResponse = undefined;
+          continuation = { input: messages };
+          attempt--;
+          continue;
+        }
+
+        if (signal?.aborted || attempt >= this.retry.maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const delayMs = retryDelayMs(error, attempt, this.retry);
+        if (delayMs === undefined) {
+          throw error;
+        }
+
+        yield {
+          type: 'retry',
+          attempt: attempt + 1,
+          maxRetries: this.retry.maxRetries,
+          delayMs,
+          reason: describeRetryReason(error),
+          restart: streamed
+        };
+        await sleep(delayMs, signal);
+      }
+    }
+
+    if (api === 'responses' && result.responseId) {
+      this.lastResponse = { id: result.responseId, model: this.model, count: messages.length, history: JSON.stringify(messages) };
+    }
+
+    // Stream finished - emit every completed tool call in the order the model made them
+    for (const toolCall of result.toolCalls) {
+      if (!toolCall.name) continue;
+
+      let args: any;
+      try {
+        args = JSON.parse(toolCall.args || '{}');
+      } catch (error) {
+        yield {
+          type: 'tool_call',
+          id: toolCall.id,
+          tool: toolCall.name,
+          args: {},
+          error: `Invalid arguments for ${toolCall.name}: ${error instanceof Error ? error.message : String(error)}`
+        };
+        continue;
+      }
+      yield { type: 'tool_call', id: toolCall.id, tool: toolCall.name, args };
+    }
+
+    if (result.reasoningTokens) {
+      yield { type: 'reasoning', tokens: result.reasoningTokens };
+    }
+
+    if (result.usage) {
+      yield { type: 'usage', usage: result.usage };
+    }
+  }
+
+  async chat(messages: ChatMessage[], tools: MCPTool[] = []): Promise<string> {
+    let response = '';
+    for await (const chunk of this.streamChat(messages, tools)) {
+      if (typeof chunk === 'string') {
+        response += chunk;
+      }
+    }
+    return response;
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    // The SDK pages through the list as it's iterated
+    for await (const model of this.client.models.list()) {
+      models.push({ id: model.id, created: model.created, ownedBy: model.owned_by });
+    }
+    return models;
+  }
 
+  /**
+   * One chat.completions request: yields text and returns the tool calls and usage
+   */
+  private async *streamCompletion(
+    messages: ChatMessage[],
+    tools: MCPTool[],
+    signal?: AbortSignal
+  ): AsyncGenerator<string | ReasoningChunk, StreamResult, unknown> {
     const openaiTools = tools.map(tool => ({
       type: 'function' as const,
       function: {
@@ -30,17 +238,40 @@ export class OpenAIClient {
 
     const stream = await this.client.chat.completions.create({
       model: this.model,
-      messages: openaiMessages,
+      messages: messages.map(msg => this.toOpenAIMessage(msg)),
       tools: openaiTools.length > 0 ? openaiTools : undefined,
       tool_choice: tools.length > 0 ? 'auto' : undefined,
+      ...this.requestParameters(),
       stream: true,
-    });
+      // The last chunk then carries the token counts for the request
+      stream_options: this.streamUsage ? { include_usage: true } : undefined,
+    }, { signal });
 
-    let currentToolCall: { name: string; args: string } | null = null;
+    // Tool calls arrive as fragments keyed by index; several may be in flight at once
+    const toolCalls = new Map<number, PendingToolCall>();
+    let usage: TokenUsage | undefined;
+    let reasoningTokens: number | undefined;
 
     for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          cachedTokens: chunk.usage.prompt_tokens_details?.cached_tokens ?? 0
+        };
+        reasoningTokens = chunk.usage.completion_tokens_details?.reasoning_tokens;
+      }
+
       const delta = chunk.choices[0]?.delta;
-      
+
+      // Not part of the OpenAI API, but OpenAI-compatible servers for open
+      // reasoning models (vLLM, DeepSeek, OpenRouter) stream the reasoning this way
+      const extra = delta as { reasoning_content?: string; reasoning?: string } | undefined;
+      const reasoning = extra?.reasoning_content ?? extra?.reasoning;
+      if (reasoning) {
+        yield { type: 'reasoning', text: reasoning };
+      }
+
       if (delta?.content) {
         yield delta.content;
       }
@@ -48,41 +279,210 @@ export class OpenAIClient {
       // Handle tool calls
       if (delta?.tool_calls) {
         for (const toolCall of delta.tool_calls) {
+          let pending = toolCalls.get(toolCall.index);
+          if (!pending) {
+            pending = { id: '', name: '', args: '' };
+            toolCalls.set(toolCall.index, pending);
+          }
+
+          if (toolCall.id) {
+            pending.id = toolCall.id;
+          }
           if (toolCall.function?.name) {
-            currentToolCall = {
-              name: toolCall.function.name,
-              args: toolCall.function.arguments || ''
-            };
-          } else if (currentToolCall && toolCall.function?.arguments) {
-            currentToolCall.args += toolCall.function.arguments;
+            pending.name = toolCall.function.name;
+          }
+          if (toolCall.function?.arguments) {
+            pending.args += toolCall.function.arguments;
           }
         }
       }
+    }
 
-      // Tool call completed
-      if (chunk.choices[0]?.finish_reason === 'tool_calls' && currentToolCall) {
-        try {
-          const args = JSON.parse(currentToolCall.args);
-          yield {
-            type: 'tool_call',
-            tool: currentToolCall.name,
-            args
-          };
-          currentToolCall = null;
-        } catch (error) {
-          console.error('Failed to parse tool call arguments:', error);
-        }
-      }
+    return {
+      toolCalls: [...toolCalls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call),
+      usage,
+      reasoningTokens
+    };
+  }
+
+  /**
+   * One Responses API request, chained to the previous response when there is one
+   */
+  private async *streamResponse(
+    messages: ChatMessage[],
+    tools: MCPTool[],
+    previousResponseId: string | undefined,
+    signal?: AbortSignal
+  ): AsyncGenerator<string | ReasoningChunk, StreamResult, unknown> {
+    const responseTools = [
+      ...toResponseTools(tools),
+      ...(this.builtinTools as unknown as Tool[])
+    ];
+
+    const stream = await this.client.responses.create({
+      model: this.model,
+      input: toResponseInput(messages),
+      previous_response_id: previousResponseId,
+      tools: responseTools.length > 0 ? responseTools : undefined,
+      ...this.responseParameters(),
+      stream: true
+    }, { signal });
+
+    return yield* readResponseEvents(stream);
+  }
+
+  /**
+   * The messages to send and the response to continue from. The stored
+   * response still applies when the history up to it is unchanged and has
+   * since gained its reply; otherwise (a summarized history, another model)
+   * everything is sent again.
+   */
+  private continueResponse(messages: ChatMessage[]): { input: ChatMessage[]; previousResponseId?: string } {
+    const last = this.lastResponse;
+    if (
+      last
+      && last.model === this.model
+      && messages.length > last.count + 1
+      && messages[last.count].role === 'assistant'
+      && JSON.stringify(messages.slice(0, last.count)) === last.history
+    ) {
+      return { input: messages.slice(last.count + 1), previousResponseId: last.id };
     }
+    return { input: messages };
   }
 
-  async chat(messages: ChatMessage[], tools: MCPTool[] = []): Promise<string> {
-    let response = '';
-    for await (const chunk of this.streamChat(messages, tools)) {
-      if (typeof chunk === 'string') {
-        response += chunk;
-      }
+  /**
+   * chat.completions or the Responses API, from the `api` setting for this model
+   */
+  private getApi(): OpenAIApi {
+    if (!this.api || typeof this.api === 'string') {
+      return this.api || 'chat';
     }
-    return response;
+
+    const match = Object.keys(this.api)
+      .filter(prefix => this.model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? this.api[match] : 'chat';
+  }
+
+  private isStreamUsageRefusal(error: unknown): boolean {
+    return this.streamUsage
+      && error instanceof OpenAI.APIError
+      && error.status === 400
+      && /stream_options|include_usage/i.test(error.message);
+  }
+
+  /**
+   * Whether a request was refused for asking for a reasoning summary, which
+   * the API only allows for verified organizations
+   */
+  private isSummaryRefusal(error: unknown): boolean {
+    return !this.summariesRefused
+      && Boolean(this.parameters.reasoningSummary)
+      && error instanceof OpenAI.APIError
+      && error.status === 400
+      && /summar/i.test(error.message);
+  }
+
+  /**
+   * Like requestParameters, for the Responses API. It has no seed, stop
+   * sequences or penalties, so those are left out.
+   */
+  private responseParameters() {
+    const capabilities = getModelCapabilities(this.model, this.modelCapabilities);
+    const parameters = supportedParameters(this.parameters, capabilities);
+    const summary = parameters.reasoningSummary && !this.summariesRefused;
+
+    return {
+      temperature: parameters.temperature,
+      top_p: parameters.topP,
+      max_output_tokens: parameters.maxTokens,
+      reasoning: parameters.reasoningEffort || summary
+        ? {
+            effort: parameters.reasoningEffort as OpenAIReasoningEffort | undefined,
+            summary: summary ? 'auto' as const : undefined
+          }
+        : undefined,
+      text: parameters.responseFormat
+        ? {
+            format: {
+              type: 'json_schema' as const,
+              name: parameters.responseFormat.name,
+              schema: parameters.responseFormat.schema,
+              strict: parameters.responseFormat.strict ?? false
+            }
+          }
+        : undefined
+    };
+  }
+
+  /**
+   * The set parameters the model accepts, under their API names
+   */
+  private requestParameters() {
+    const capabilities = getModelCapabilities(this.model, this.modelCapabilities);
+    const parameters = supportedParameters(this.parameters, capabilities);
+
+    return {
+      temperature: parameters.temperature,
+      top_p: parameters.topP,
+      [capabilities.maxTokensParam]: parameters.maxTokens,
+      seed: parameters.seed,
+      stop: parameters.stop,
+      presence_penalty: parameters.presencePenalty,
+      frequency_penalty: parameters.frequencyPenalty,
+      // The SDK's typings predate 'minimal'
+      reasoning_effort: parameters.reasoningEffort as OpenAIReasoningEffort | undefined,
+      response_format: parameters.responseFormat
+        ? {
+            type: 'json_schema' as const,
+            json_schema: {
+              name: parameters.responseFormat.name,
+              schema: parameters.responseFormat.schema,
+              strict: parameters.responseFormat.strict ?? false
+            }
+          }
+        : undefined
+    };
+  }
+
+  private toOpenAIMessage(msg: ChatMessage): ChatCompletionMessageParam {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: msg.toolCallId || '',
+        content: contentText(msg.content)
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: contentText(msg.content) || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: {
+            name: call.name,
+            arguments: call.arguments
+          }
+        }))
+      };
+    }
+
+    // Only user messages may carry images
+    if (msg.role === 'user' && Array.isArray(msg.content)) {
+      return {
+        role: 'user',
+        content: msg.content.map((part): ChatCompletionContentPart => part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data}` } })
+      };
+    }
+
+    return {
+      role: msg.role,
+      content: contentText(msg.content)
+    };
   }
-} 
\ No newline at end of file
+}
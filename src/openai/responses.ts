@@ -0,0 +1,144 @@
+import type {
+  FunctionTool,
+  ResponseInputContent,
+  ResponseInputItem,
+  ResponseStreamEvent
+} from 'openai/resources/responses/responses';
+import type { ChatMessage, MCPTool, ReasoningChunk, TokenUsage } from '../types/index.js';
+import { contentText } from '../providers/content.js';
+
+export interface PendingToolCall {
+  id: string;
+  name: string;
+  // JSON text, parsed once the stream has finished
+  args: string;
+}
+
+/**
+ * What one streamed request leaves behind once its text has been yielded
+ */
+export interface StreamResult {
+  toolCalls: PendingToolCall[];
+  usage?: TokenUsage;
+  reasoningTokens?: number;
+  // Set by the Responses API, for chaining the next request with previous_response_id
+  responseId?: string;
+}
+
+/**
+ * Convert the history to Responses API input items. Tool calls and their
+ * results are separate items rather than parts of a message.
+ */
+export function toResponseInput(messages: ChatMessage[]): ResponseInputItem[] {
+  return messages.flatMap((msg): ResponseInputItem[] => {
+    if (msg.role === 'tool') {
+      return [{ type: 'function_call_output', call_id: msg.toolCallId || '', output: contentText(msg.content) }];
+    }
+
+    if (msg.role === 'assistant') {
+      const text = contentText(msg.content);
+      return [
+        ...(text ? [{ role: 'assistant' as const, content: text }] : []),
+        ...(msg.toolCalls || []).map(call => ({
+          type: 'function_call' as const,
+          call_id: call.id,
+          name: call.name,
+          arguments: call.arguments
+        }))
+      ];
+    }
+
+    // Only user messages may carry images
+    if (msg.role === 'user' && Array.isArray(msg.content)) {
+      return [{
+        role: 'user',
+        content: msg.content.map((part): ResponseInputContent => part.type === 'text'
+          ? { type: 'input_text', text: part.text }
+          : { type: 'input_image', detail: 'auto', image_url: `data:${part.mediaType};base64,${part.data}` })
+      }];
+    }
+
+    return [{ role: msg.role, content: contentText(msg.content) }];
+  });
+}
+
+export function toResponseTools(tools: MCPTool[]): FunctionTool[] {
+  return tools.map(tool => ({
+    type: 'function',
+    name: tool.name,
+    description: tool.description || '',
+    parameters: tool.inputSchema,
+    // MCP schemas rarely meet strict mode's requirements
+    strict: false
+  }));
+}
+
+/**
+ * Yield the output text and reasoning summaries of a Responses API stream,
+ * collecting function calls and usage for the end. Reasoning items stay with
+ * the stored response, so chained requests pick them up through
+ * previous_response_id.
+ */
+export async function* readResponseEvents(
+  events: AsyncIterable<ResponseStreamEvent>
+): AsyncGenerator<string | ReasoningChunk, StreamResult, unknown> {
+  // Function calls keyed by output index, so they come out in the order the model made them
+  const toolCalls = new Map<number, PendingToolCall>();
+  const result: StreamResult = { toolCalls: [] };
+
+  for await (const event of events) {
+    switch (event.type) {
+      case 'response.created':
+        result.responseId = event.response.id;
+        break;
+
+      case 'response.output_text.delta':
+        yield event.delta;
+        break;
+
+      case 'response.reasoning_summary_part.added':
+        // A summary can come in several parts; keep them apart
+        if (event.summary_index > 0) {
+          yield { type: 'reasoning', text: '\n\n' };
+        }
+        break;
+
+      case 'response.reasoning_summary_text.delta':
+        yield { type: 'reasoning', text: event.delta };
+        break;
+
+      case 'response.output_item.done':
+        if (event.item.type === 'function_call') {
+          toolCalls.set(event.output_index, {
+            id: event.item.call_id,
+            name: event.item.name,
+            args: event.item.arguments
+          });
+        }
+        break;
+
+      case 'response.completed':
+      case 'response.incomplete': {
+        const usage = event.response.usage;
+        if (usage) {
+          result.usage = {
+            promptTokens: usage.input_tokens,
+            completionTokens: usage.output_tokens,
+            cachedTokens: usage.input_tokens_details?.cached_tokens ?? 0
+          };
+          result.reasoningTokens = usage.output_tokens_details?.reasoning_tokens;
+        }
+        break;
+      }
+
+      case 'response.failed':
+        throw new Error(`Response failed: ${event.response.error?.message || 'unknown error'}`);
+
+      case 'error':
+        throw new Error(`Response stream error: ${event.message}`);
+    }
+  }
+
+  result.toolCalls = [...toolCalls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call);
+  return result;
+}
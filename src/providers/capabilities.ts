@@ -0,0 +1,99 @@
+import type { ModelCapabilities, ModelParameters } from '../types/index.js';
+
+// Chat models that take every sampling parameter. Images and JSON schemas
+// are only sent to models known to take them.
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  temperature: true,
+  topP: true,
+  penalties: true,
+  seed: true,
+  stop: true,
+  reasoningEffort: false,
+  vision: false,
+  jsonSchema: false,
+  tools: true,
+  maxTokensParam: 'max_tokens'
+};
+
+// Reasoning models reject sampling parameters and count output as completion tokens
+const REASONING_CAPABILITIES: Partial<ModelCapabilities> = {
+  temperature: false,
+  topP: false,
+  penalties: false,
+  stop: false,
+  reasoningEffort: true,
+  maxTokensParam: 'max_completion_tokens'
+};
+
+const IMAGES_AND_SCHEMAS: Partial<ModelCapabilities> = { vision: true, jsonSchema: true };
+
+// Differences from the defaults by model name prefix; the longest matching prefix wins
+const MODEL_CAPABILITIES: Record<string, Partial<ModelCapabilities>> = {
+  'o1': { ...REASONING_CAPABILITIES, ...IMAGES_AND_SCHEMAS },
+  'o1-mini': { ...REASONING_CAPABILITIES, reasoningEffort: false, tools: false },
+  'o1-preview': { ...REASONING_CAPABILITIES, reasoningEffort: false, tools: false },
+  'o3': { ...REASONING_CAPABILITIES, ...IMAGES_AND_SCHEMAS },
+  'o3-mini': { ...REASONING_CAPABILITIES, jsonSchema: true },
+  'o4-mini': { ...REASONING_CAPABILITIES, ...IMAGES_AND_SCHEMAS },
+  'gpt-5': { ...REASONING_CAPABILITIES, ...IMAGES_AND_SCHEMAS },
+  'gpt-5-chat': IMAGES_AND_SCHEMAS,
+  'gpt-3.5-turbo': {},
+  'gpt-4': {},
+  'gpt-4-turbo': { vision: true },
+  'gpt-4o': IMAGES_AND_SCHEMAS,
+  'gpt-4.1': IMAGES_AND_SCHEMAS,
+  'claude': { penalties: false, seed: false, vision: true }
+};
+
+// The capability each parameter depends on; every model takes a token limit
+const PARAMETER_CAPABILITY: Record<keyof ModelParameters, keyof ModelCapabilities | undefined> = {
+  temperature: 'temperature',
+  topP: 'topP',
+  maxTokens: undefined,
+  seed: 'seed',
+  stop: 'stop',
+  presencePenalty: 'penalties',
+  frequencyPenalty: 'penalties',
+  reasoningEffort: 'reasoningEffort',
+  responseFormat: 'jsonSchema',
+  reasoningSummary: 'reasoningEffort'
+};
+
+export function getModelCapabilities(
+  model: string,
+  overrides: Record<string, Partial<ModelCapabilities>> = {}
+): ModelCapabilities {
+  // Overrides change single capabilities of a built-in entry rather than replacing it
+  const table = { ...MODEL_CAPABILITIES };
+  for (const [prefix, capabilities] of Object.entries(overrides)) {
+    table[prefix] = { ...table[prefix], ...capabilities };
+  }
+  const match = Object.keys(table)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return { ...DEFAULT_CAPABILITIES, ...(match ? table[match] : {}) };
+}
+
+/**
+ * Drop the parameters the model doesn't accept, along with unset ones
+ */
+export function supportedParameters(parameters: ModelParameters, capabilities: ModelCapabilities): ModelParameters {
+  const supported: ModelParameters = {};
+  for (const [key, value] of Object.entries(parameters) as Array<[keyof ModelParameters, any]>) {
+    const capability = PARAMETER_CAPABILITY[key];
+    if (value !== undefined && (!capability || capabilities[capability])) {
+      supported[key] = value;
+    }
+  }
+  return supported;
+}
+
+/**
+ * Names of the set parameters the model would ignore
+ */
+export function unsupportedParameters(parameters: ModelParameters, capabilities: ModelCapabilities): Array<keyof ModelParameters> {
+  const supported = supportedParameters(parameters, capabilities);
+  return (Object.keys(parameters) as Array<keyof ModelParameters>)
+    .filter(key => parameters[key] !== undefined && !(key in supported));
+}
@@ -0,0 +1,19 @@
+import type { ChatContentPart, ChatMessage } from '../types/index.js';
+
+/**
+ * The text of a message, with images reduced to a placeholder
+ */
+export function contentText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map(part => part.type === 'text' ? part.text : `[image${part.name ? `: ${part.name}` : ''}]`)
+    .join('\n');
+}
+
+export function contentImages(content: ChatMessage['content']): Array<Extract<ChatContentPart, { type: 'image' }>> {
+  return typeof content === 'string'
+    ? []
+    : content.filter((part): part is Extract<ChatContentPart, { type: 'image' }> => part.type === 'image');
+}
@@ -0,0 +1,146 @@
+import { OpenAIClient } from '../openai/client.js';
+import { AnthropicClient } from '../anthropic/client.js';
+import { MockProvider } from './mock.js';
+import { RecordingProvider } from './recorder.js';
+import type { AppConfig, ChatProvider, ModelCapabilities, ProviderConfig } from '../types/index.js';
+
+export const DEFAULT_PROVIDER = 'openai';
+
+export interface ResolvedProvider {
+  name: string;
+  config: ProviderConfig;
+}
+
+export function listProviderNames(appConfig: AppConfig): string[] {
+  const names = Object.keys(appConfig.providers || {});
+  return names.includes(DEFAULT_PROVIDER) ? names : [DEFAULT_PROVIDER, ...names];
+}
+
+/**
+ * Look up a provider by name. The built-in `openai` provider is configured
+ * from the `openai` section unless `providers.openai` overrides it.
+ */
+export function resolveProvider(appConfig: AppConfig, name?: string): ResolvedProvider {
+  const providerName = name || appConfig.defaultProvider || DEFAULT_PROVIDER;
+  const configured = appConfig.providers?.[providerName];
+
+  if (configured) {
+    return { name: providerName, config: configured };
+  }
+
+  if (providerName === DEFAULT_PROVIDER) {
+    const { apiKey, baseURL, headers, organization, project, retry, parameters, api, builtinTools, streamUsage } = appConfig.openai;
+    return {
+      name: DEFAULT_PROVIDER,
+      config: {
+        type: 'openai',
+        apiKey: process.env.OPENAI_API_KEY || apiKey,
+        baseURL, headers, organization, project, retry, parameters, api, builtinTools, streamUsage
+      }
+    };
+  }
+
+  throw new Error(`Unknown provider: ${providerName}. Available providers: ${listProviderNames(appConfig).join(', ')}`);
+}
+
+export interface CreateProviderOptions {
+  // Append every exchange to this JSONL file
+  record?: string;
+  // From `modelCapabilities` in the config
+  modelCapabilities?: Record<string, Partial<ModelCapabilities>>;
+}
+
+/**
+ * The provider used by --replay, playing back a recording instead of calling an API
+ */
+export function replayProvider(fixture: string): ResolvedProvider {
+  return { name: 'replay', config: { type: 'mock', fixture } };
+}
+
+export function createProvider(provider: ResolvedProvider, model: string, options: CreateProviderOptions = {}): ChatProvider {
+  const client = createClient(provider, model, options);
+  return options.record ? new RecordingProvider(client, options.record) : client;
+}
+
+function createClient(provider: ResolvedProvider, model: string, options: CreateProviderOptions): ChatProvider {
+  const { name, config } = provider;
+
+  if (config.type === 'mock') {
+    if (!config.fixture) {
+      throw new Error(`Provider ${name} needs a fixture file`);
+    }
+    return new MockProvider(model, { name, fixture: config.fixture });
+  }
+
+  const apiKey = resolveProviderApiKey(provider);
+
+  switch (config.type || 'openai') {
+    case 'anthropic':
+      return new AnthropicClient(apiKey, model, {
+        name,
+        baseURL: config.baseURL,
+        headers: config.headers,
+        apiVersion: config.apiVersion,
+        modelCapabilities: options.modelCapabilities
+      });
+    case 'azure':
+      return new OpenAIClient(apiKey, model, {
+        name,
+        baseURL: config.baseURL,
+        headers: config.headers,
+        azure: { apiVersion: config.apiVersion },
+        retry: config.retry,
+        api: config.api,
+        builtinTools: config.builtinTools,
+        streamUsage: config.streamUsage ?? true,
+        modelCapabilities: options.modelCapabilities
+      });
+    default:
+      return new OpenAIClient(apiKey, model, {
+        name,
+        baseURL: config.baseURL,
+        headers: config.headers,
+        organization: config.organization,
+        project: config.project,
+        retry: config.retry,
+        api: config.api,
+        builtinTools: config.builtinTools,
+        // Only the official endpoint is sure to accept stream_options
+        streamUsage: config.streamUsage ?? !config.baseURL,
+        modelCapabilities: options.modelCapabilities
+      });
+  }
+}
+
+/**
+ * Split `provider:model` when the prefix names a configured provider.
+ * Anything else is a plain model name, which may itself contain colons (e.g. `llama3:8b`).
+ */
+export function parseModelSpec(appConfig: AppConfig, spec: string): { provider?: string; model: string } {
+  const separator = spec.indexOf(':');
+  if (separator > 0) {
+    const prefix = spec.slice(0, separator);
+    if (listProviderNames(appConfig).includes(prefix)) {
+      return { provider: prefix, model: spec.slice(separator + 1) };
+    }
+  }
+  return { model: spec };
+}
+
+function resolveProviderApiKey(provider: ResolvedProvider): string {
+  const { name, config } = provider;
+  const apiKey = config.apiKey || (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined);
+  if (apiKey) {
+    return apiKey;
+  }
+
+  // Local OpenAI-compatible servers usually don't check the key, but the SDK requires one
+  if ((config.type || 'openai') === 'openai' && config.baseURL) {
+    return 'not-needed';
+  }
+
+  if (name === DEFAULT_PROVIDER) {
+    throw new Error('OpenAI API key not found. Set OPENAI_API_KEY in .env file, environment variable, or config file.');
+  }
+  throw new Error(`API key for provider ${name} not found. Set apiKey${config.apiKeyEnv ? ` or ${config.apiKeyEnv}` : ' or apiKeyEnv'} in the config file.`);
+}
@@ -0,0 +1,119 @@
+import * as fs from 'fs/promises';
+import type { ChatMessage, ChatProvider, ChatStreamChunk, MCPTool, ModelInfo, ModelParameters, RecordedExchange } from '../types/index.js';
+
+export interface MockProviderOptions {
+  name?: string;
+  // JSONL file of recorded exchanges, loaded on the first request
+  fixture?: string;
+  // Scripted exchanges, used instead of a fixture
+  exchanges?: RecordedExchange[];
+}
+
+/**
+ * Deterministic provider that plays back scripted exchanges in order, one per
+ * streamChat call. Works with --record output or hand-written fixtures where
+ * each line is `{"response": ["Hello", {"type": "tool_call", ...}]}`.
+ */
+export class MockProvider implements ChatProvider {
+  readonly name: string;
+  private model: string;
+  private parameters: ModelParameters = {};
+  private fixture?: string;
+  private exchanges?: RecordedExchange[];
+  private position = 0;
+
+  constructor(model: string, options: MockProviderOptions = {}) {
+    this.name = options.name || 'mock';
+    this.model = model;
+    this.fixture = options.fixture;
+    this.exchanges = options.exchanges;
+
+    if (!this.fixture && !this.exchanges) {
+      throw new Error('Mock provider needs a fixture file or scripted exchanges');
+    }
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  getParameters(): ModelParameters {
+    return { ...this.parameters };
+  }
+
+  setParameters(parameters: ModelParameters): void {
+    this.parameters = { ...parameters };
+  }
+
+  async *streamChat(
+    _messages: ChatMessage[],
+    _tools: MCPTool[] = [],
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamChunk, void, unknown> {
+    const exchanges = await this.loadExchanges();
+    const exchange = exchanges[this.position];
+    if (!exchange) {
+      throw new Error(
+        `Mock provider has no response left for request ${this.position + 1}` +
+        (this.fixture ? ` (fixture: ${this.fixture})` : '')
+      );
+    }
+    this.position++;
+
+    for (const chunk of exchange.response) {
+      signal?.throwIfAborted();
+      // Let the event loop run between chunks, like a real stream would
+      await new Promise(resolve => setImmediate(resolve));
+      yield chunk;
+    }
+
+    if (exchange.error) {
+      throw new Error(exchange.error);
+    }
+  }
+
+  async chat(messages: ChatMessage[], tools: MCPTool[] = []): Promise<string> {
+    let response = '';
+    for await (const chunk of this.streamChat(messages, tools)) {
+      if (typeof chunk === 'string') {
+        response += chunk;
+      }
+    }
+    return response;
+  }
+
+  // Only the model being played back
+  async listModels(): Promise<ModelInfo[]> {
+    return [{ id: this.model, ownedBy: this.name }];
+  }
+
+  private async loadExchanges(): Promise<RecordedExchange[]> {
+    if (!this.exchanges) {
+      this.exchanges = await readRecording(this.fixture!);
+    }
+    return this.exchanges;
+  }
+}
+
+export async function readRecording(filePath: string): Promise<RecordedExchange[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return content
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line)
+    .map(({ line, index }) => {
+      try {
+        const exchange = JSON.parse(line) as RecordedExchange;
+        if (!Array.isArray(exchange.response)) {
+          throw new Error('missing "response" array');
+        }
+        return exchange;
+      } catch (error) {
+        throw new Error(`Invalid recording ${filePath} at line ${index + 1}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+}
@@ -0,0 +1,73 @@
+import * as fs from 'fs/promises';
+import type { ChatMessage, ChatProvider, ChatStreamChunk, MCPTool, ModelInfo, ModelParameters, RecordedExchange } from '../types/index.js';
+
+/**
+ * Wraps a provider and appends every request and its streamed response to a
+ * JSONL file, which the mock provider can play back with --replay.
+ */
+export class RecordingProvider implements ChatProvider {
+  readonly name: string;
+
+  constructor(private provider: ChatProvider, private filePath: string) {
+    this.name = provider.name;
+  }
+
+  getModel(): string {
+    return this.provider.getModel();
+  }
+
+  setModel(model: string): void {
+    this.provider.setModel(model);
+  }
+
+  getParameters(): ModelParameters {
+    return this.provider.getParameters();
+  }
+
+  setParameters(parameters: ModelParameters): void {
+    this.provider.setParameters(parameters);
+  }
+
+  async *streamChat(
+    messages: ChatMessage[],
+    tools: MCPTool[] = [],
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamChunk, void, unknown> {
+    const exchange: RecordedExchange = {
+      request: {
+        provider: this.name,
+        model: this.provider.getModel(),
+        messages: structuredClone(messages),
+        tools: tools.map(tool => tool.name)
+      },
+      response: []
+    };
+
+    try {
+      for await (const chunk of this.provider.streamChat(messages, tools, signal)) {
+        exchange.response.push(chunk);
+        yield chunk;
+      }
+    } catch (error) {
+      exchange.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      // Also runs when the consumer stops early, so interrupted turns are kept
+      await fs.appendFile(this.filePath, JSON.stringify(exchange) + '\n', 'utf-8');
+    }
+  }
+
+  async chat(messages: ChatMessage[], tools: MCPTool[] = []): Promise<string> {
+    let response = '';
+    for await (const chunk of this.streamChat(messages, tools)) {
+      if (typeof chunk === 'string') {
+        response += chunk;
+      }
+    }
+    return response;
+  }
+
+  listModels(): Promise<ModelInfo[]> {
+    return this.provider.listModels();
+  }
+}
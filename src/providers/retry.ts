@@ -0,0 +1,149 @@
+import OpenAI from 'openai';
+import type { RetryConfig } from '../types/index.js';
+
+export const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Request timeout, conflict, rate limit and server errors are worth another try
+const RETRYABLE_STATUS = new Set([408, 409, 429]);
+
+// Socket failures another attempt can get past, including a stream cut off part-way
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'ERR_STREAM_PREMATURE_CLOSE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+]);
+
+export function resolveRetryConfig(config?: RetryConfig): Required<RetryConfig> {
+  return { ...DEFAULT_RETRY_CONFIG, ...config };
+}
+
+/**
+ * Whether a failed request (or a stream that broke off) should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return false;
+  }
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    return true;
+  }
+
+  if (error instanceof OpenAI.APIError) {
+    // A used-up quota won't come back by waiting
+    if (error.code === 'insufficient_quota') {
+      return false;
+    }
+    // Errors sent inside the stream have no status
+    if (error.status === undefined) {
+      return true;
+    }
+    return RETRYABLE_STATUS.has(error.status) || error.status >= 500;
+  }
+
+  // Anything else is only retried when it is a known network failure, so bugs surface at once
+  return isNetworkError(error);
+}
+
+/**
+ * Whether an error, or one it was caused by, is a network failure. fetch
+ * reports those as `TypeError: fetch failed` with the socket error as cause.
+ */
+export function isNetworkError(error: unknown): boolean {
+  let current = error;
+  for (let depth = 0; current instanceof Error && depth < 5; depth++) {
+    const code = (current as NodeJS.ErrnoException).code;
+    if (code && NETWORK_ERROR_CODES.has(code)) {
+      return true;
+    }
+    if (current instanceof TypeError && current.message === 'fetch failed' && current.cause !== undefined) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * How long to wait before the given retry (0-based). Honors retry-after and
+ * retry-after-ms headers, otherwise backs off exponentially with jitter.
+ * @returns The delay, or undefined when the server asks for a longer wait than allowed
+ */
+export function retryDelayMs(error: unknown, attempt: number, config: Required<RetryConfig>): number | undefined {
+  const retryAfter = error instanceof OpenAI.APIError ? parseRetryAfter(error.headers) : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter <= config.maxDelayMs ? retryAfter : undefined;
+  }
+
+  const backoff = Math.min(config.maxDelayMs, config.initialDelayMs * 2 ** attempt);
+  // Keep at least half the backoff so concurrent clients still spread out
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
+
+export function describeRetryReason(error: unknown): string {
+  if (error instanceof OpenAI.APIError && error.status === 429) {
+    return 'Rate limited';
+  }
+  if (error instanceof OpenAI.APIError && error.status !== undefined) {
+    return `Server error ${error.status}`;
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return 'Connection failed';
+  }
+  return 'Stream interrupted';
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function parseRetryAfter(headers?: Record<string, string | null | undefined>): number | undefined {
+  const retryAfterMs = headers?.['retry-after-ms'];
+  if (retryAfterMs) {
+    const ms = parseFloat(retryAfterMs);
+    if (!Number.isNaN(ms)) return Math.max(0, ms);
+  }
+
+  const retryAfter = headers?.['retry-after'];
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    // Otherwise an HTTP date
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
@@ -1,9 +1,67 @@
-import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Prompt, PromptMessage, Resource, ResourceTemplate, Tool } from '@modelcontextprotocol/sdk/types.js';
 
-export interface ChatOptions {
-  model: string;
+// Model parameter switches shared by chat and ask, as given on the command line
+export interface ModelParameterFlags {
+  temperature?: string;
+  topP?: string;
+  maxTokens?: string;
+  seed?: string;
+  stop?: string[];
+  presencePenalty?: string;
+  frequencyPenalty?: string;
+  reasoningEffort?: string;
+}
+
+export interface ChatOptions extends ModelParameterFlags {
+  model?: string;
+  provider?: string;
   server?: string;
   config?: string;
+  maxToolIterations?: string;
+  // Session id or name, or true to resume the most recent session
+  resume?: string | boolean;
+  persona?: string;
+  yolo?: boolean;
+  readOnly?: boolean;
+  // JSONL file to append every request and streamed response to
+  record?: string;
+  // JSONL recording or fixture to play back instead of calling a provider
+  replay?: string;
+}
+
+export interface AskOptions extends ModelParameterFlags {
+  // JSON Schema file the reply must match
+  schema?: string;
+  schemaRetries?: string;
+  model?: string;
+  provider?: string;
+  server?: string;
+  config?: string;
+  format?: string;
+  maxToolIterations?: string;
+  persona?: string;
+  yolo?: boolean;
+  readOnly?: boolean;
+  // JSONL file to append every request and streamed response to
+  record?: string;
+  // JSONL recording or fixture to play back instead of calling a provider
+  replay?: string;
+}
+
+export interface UsageOptions {
+  config?: string;
+  // Only count this session (id, name or id prefix)
+  session?: string;
+}
+
+export interface ModelsOptions {
+  config?: string;
+  provider?: string;
+  // Fetch the list again instead of using the cache
+  refresh?: boolean;
+  // Include embedding, audio, image and moderation models
+  all?: boolean;
+  json?: boolean;
 }
 
 export interface MCPTool extends Tool {
@@ -16,25 +74,364 @@ export interface MCPTool extends Tool {
   };
 }
 
+export type MCPResource = Resource;
+
+export type MCPResourceTemplate = ResourceTemplate;
+
+// One item read from a resource: text, or base64 data in blob
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export type MCPPrompt = Prompt;
+
+export type MCPPromptMessage = PromptMessage;
+
+// What one server offers, for browsing
+export interface MCPServerResources {
+  server: string;
+  resources: MCPResource[];
+  templates: MCPResourceTemplate[];
+  subscriptions: string[];
+}
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  // Base64-encoded image data, e.g. from /attach
+  | { type: 'image'; mediaType: string; data: string; name?: string };
+
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  // Plain text, or text and images for user messages with attachments
+  content: string | ChatContentPart[];
+  // Set on assistant messages that requested tool calls
+  toolCalls?: ChatToolCall[];
+  // Set on tool messages, matching the id of the call they answer
+  toolCallId?: string;
+  // Set when the user cancelled the response part way through
+  interrupted?: boolean;
+  // Reasoning summary that came with an assistant reply; kept for the user, never sent back
+  reasoning?: string;
   timestamp?: Date;
 }
 
+export interface ToolCallChunk {
+  type: 'tool_call';
+  id: string;
+  tool: string;
+  args: any;
+  // Set when the arguments could not be parsed; the call is answered with this error instead of run
+  error?: string;
+}
+
+// Sent before the provider waits to retry a failed request
+export interface RetryChunk {
+  type: 'retry';
+  // Which retry this is, starting at 1
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+  // The failed attempt had already streamed text; the retry starts the reply over, so drop it
+  restart?: boolean;
+}
+
+export interface TokenUsage {
+  // All input tokens, including cached ones
+  promptTokens: number;
+  completionTokens: number;
+  // Input tokens served from the provider's prompt cache
+  cachedTokens: number;
+}
+
+// Sent once per request, after the response, by providers that report usage
+export interface UsageChunk {
+  type: 'usage';
+  usage: TokenUsage;
+}
+
+// From reasoning models: summary text as it streams, then the reasoning token count
+export interface ReasoningChunk {
+  type: 'reasoning';
+  text?: string;
+  tokens?: number;
+}
+
+export type ChatStreamChunk = string | ToolCallChunk | RetryChunk | UsageChunk | ReasoningChunk;
+
+/**
+ * A chat backend. Implementations stream text and completed tool calls
+ * through the same generator contract.
+ */
+export interface ChatProvider {
+  // Name of the configured provider this instance was created from
+  readonly name: string;
+  getModel(): string;
+  setModel(model: string): void;
+  getParameters(): ModelParameters;
+  // Replaces every parameter; ones the model doesn't support are left out of requests
+  setParameters(parameters: ModelParameters): void;
+  streamChat(messages: ChatMessage[], tools?: MCPTool[], signal?: AbortSignal): AsyncGenerator<ChatStreamChunk, void, unknown>;
+  chat(messages: ChatMessage[], tools?: MCPTool[]): Promise<string>;
+  // Models available to the configured key, from the provider's models endpoint
+  listModels(): Promise<ModelInfo[]>;
+}
+
+export interface ModelInfo {
+  id: string;
+  // Seconds since the epoch, when the provider reports it
+  created?: number;
+  ownedBy?: string;
+}
+
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+
+export interface ModelParameters {
+  temperature?: number;
+  topP?: number;
+  // Sent as max_tokens or max_completion_tokens, whichever the model takes
+  maxTokens?: number;
+  seed?: number;
+  stop?: string[];
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  reasoningEffort?: ReasoningEffort;
+  // Ask for JSON matching a schema (response_format json_schema)
+  responseFormat?: JsonSchemaFormat;
+  // Ask reasoning models for a summary of their reasoning (Responses API)
+  reasoningSummary?: boolean;
+}
+
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+  // Have the API enforce the schema exactly; needs a schema written for strict mode
+  strict?: boolean;
+}
+
+// Which request parameters a model accepts
+export interface ModelCapabilities {
+  temperature: boolean;
+  topP: boolean;
+  penalties: boolean;
+  seed: boolean;
+  stop: boolean;
+  reasoningEffort: boolean;
+  // Accepts images in user messages
+  vision: boolean;
+  // Accepts response_format json_schema
+  jsonSchema: boolean;
+  // Can call functions (MCP tools)
+  tools: boolean;
+  maxTokensParam: 'max_tokens' | 'max_completion_tokens';
+}
+
+// openai also covers OpenAI-compatible servers (vLLM, llama.cpp, Ollama) through baseURL
+export type ProviderType = 'openai' | 'azure' | 'anthropic' | 'mock';
+
+// chat.completions, or the Responses API with server-side conversation state
+export type OpenAIApi = 'chat' | 'responses';
+
+export interface ProviderConfig {
+  type?: ProviderType;
+  apiKey?: string;
+  // Name of the environment variable holding the API key
+  apiKeyEnv?: string;
+  baseURL?: string;
+  headers?: Record<string, string>;
+  organization?: string;
+  project?: string;
+  // Azure OpenAI api-version, or the anthropic-version header
+  apiVersion?: string;
+  // Default model for this provider
+  model?: string;
+  // JSONL fixture played back by the mock provider
+  fixture?: string;
+  retry?: RetryConfig;
+  parameters?: ModelParameters;
+  // Which OpenAI API to call: one for every model, or by model name prefix
+  api?: OpenAIApi | Record<string, OpenAIApi>;
+  // Responses API built-in tools, e.g. {"type": "web_search_preview"}
+  builtinTools?: Array<Record<string, unknown>>;
+  // Ask for token usage at the end of streamed chat completions; on by default
+  // for OpenAI itself and Azure, off for other servers, which may reject it
+  streamUsage?: boolean;
+}
+
+export interface RetryConfig {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries?: number;
+  initialDelayMs?: number;
+  // Longest wait between attempts, including waits asked for by retry-after
+  maxDelayMs?: number;
+}
+
+/**
+ * One streamChat call as stored by --record and played back by the mock provider
+ */
+export interface RecordedExchange {
+  request?: {
+    provider: string;
+    model: string;
+    messages: ChatMessage[];
+    tools: string[];
+  };
+  response: ChatStreamChunk[];
+  // Set when the stream failed; replay throws it after the recorded chunks
+  error?: string;
+}
+
+// Sessions name their MCP servers rather than copying the configs, whose env
+// and headers often hold tokens; resuming looks them up in the config file
+export interface SessionServer {
+  name: string;
+  // The --server value, for a server that isn't in the config file
+  server?: string;
+}
+
+export interface ChatSession {
+  id: string;
+  name?: string;
+  model: string;
+  provider?: string;
+  persona?: string;
+  servers: SessionServer[];
+  messages: ChatMessage[];
+  // Token counts by model, so costs can be worked out with current prices
+  usage?: Record<string, TokenUsage>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  // Price for cached input tokens; defaults to the input price
+  cachedInput?: number;
+}
+
+export type ToolPermission = 'allow' | 'ask' | 'deny';
+
+// ask: follow the rules and prompt when needed; yolo: allow everything; read-only: only read-only tools
+export type PermissionMode = 'ask' | 'yolo' | 'read-only';
+
+export type ContextPolicy = 'drop-oldest' | 'truncate-tool-results' | 'summarize';
+
+// stdio starts the server as a child process; http (Streamable HTTP) and sse connect to a running one
+export type MCPTransportType = 'stdio' | 'http' | 'sse';
+
 export interface MCPServerConfig {
   name: string;
-  command: string;
+  transport?: MCPTransportType;
+  // Command that starts a stdio server
+  command?: string;
   args?: string[];
   env?: Record<string, string>;
+  // Endpoint of an http or sse server
+  url?: string;
+  // Sent with every request to an http or sse server; ${VAR} is replaced from the environment
+  headers?: Record<string, string>;
+  // How many tool calls may run against this server at the same time
+  maxConcurrentToolCalls?: number;
+  // Backoff for reconnecting after the connection is lost; maxRetries: 0 turns reconnecting off
+  reconnect?: RetryConfig;
+}
+
+// reconnecting: the connection was lost and is being restored; disconnected: closed, or reconnecting gave up
+export type MCPServerStatus = 'connected' | 'reconnecting' | 'disconnected';
+
+export interface MCPServerHealth {
+  name: string;
+  transport: MCPTransportType;
+  status: MCPServerStatus;
+  // Start of the current connection, while connected
+  connectedSince?: Date;
+  // Times the connection was restored after being lost
+  restarts: number;
+  tools: number;
+  lastError?: string;
+  // When the next reconnect attempt is due, while reconnecting
+  nextAttemptAt?: Date;
+}
+
+export interface PersonaConfig {
+  description?: string;
+  // May contain {{cwd}}, {{date}}, {{time}}, {{model}}, {{persona}}, {{servers}} and {{allowedDirectories}}
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  // Tool name patterns this persona may use, e.g. ["read_*", "search_nodes"]; all tools when unset
+  allowedTools?: string[];
 }
 
 export interface AppConfig {
   openai: {
     apiKey?: string;
     model?: string;
+    baseURL?: string;
+    headers?: Record<string, string>;
+    organization?: string;
+    project?: string;
+    retry?: RetryConfig;
+    parameters?: ModelParameters;
+    api?: OpenAIApi | Record<string, OpenAIApi>;
+    builtinTools?: Array<Record<string, unknown>>;
+    streamUsage?: boolean;
   };
+  // Named providers in addition to the built-in "openai" one
+  providers?: Record<string, ProviderConfig>;
+  defaultProvider?: string;
   mcpServers: MCPServerConfig[];
+  systemPrompt?: string;
+  personas?: Record<string, PersonaConfig>;
+  defaultPersona?: string;
+  chat?: {
+    maxToolIterations?: number;
+    // How often to re-prompt when a reply doesn't match the --schema / /schema schema
+    schemaRetries?: number;
+    // Show reasoning summaries above answers; /thinking toggles it (default: true)
+    showThinking?: boolean;
+  };
+  sessions?: {
+    directory?: string;
+    autoSave?: boolean;
+  };
+  models?: {
+    // Where `ai-chat models` caches each provider's model list
+    cacheFile?: string;
+    cacheTtlHours?: number;
+  };
+  permissions?: {
+    mode?: PermissionMode;
+    // Server name (or "*") -> tool name or pattern (e.g. "read_*") -> permission
+    rules?: Record<string, Record<string, ToolPermission>>;
+  };
+  context?: {
+    policy?: ContextPolicy;
+    maxTokens?: number;
+    reserveTokens?: number;
+    toolResultMaxChars?: number;
+    contextLimits?: Record<string, number>;
+  };
+  attachments?: {
+    // Text files longer than this are cut off when inlined
+    maxTextChars?: number;
+    maxImageBytes?: number;
+  };
+  // Capabilities by model name prefix, added to or overriding the built-in table
+  modelCapabilities?: Record<string, Partial<ModelCapabilities>>;
+  // Prices by model name prefix, added to or overriding the built-in table
+  pricing?: Record<string, ModelPrice>;
   memory?: {
     enabled?: boolean;
     filePath?: string;
@@ -3,6 +3,88 @@
 echo "🚀 OpenAI CLI Client Test Script"
 echo ""
 
+# Play back recorded model responses so the chat loop, tool routing and
+# rendering can be checked without network access or an API key
+echo "🧪 Replaying recorded conversations (offline):"
+echo ""
+
+# Replay a fixture through `ask --format json` and compare the reply and the
+# number of tool calls with what the fixture should produce
+check_replay() {
+    local label="$1" expected_response="$2" expected_tool_calls="$3"
+    shift 3
+
+    local output
+    if ! output=$(npm run dev --silent -- ask --format json "$@" < /dev/null); then
+        echo "❌ Replay of $label failed"
+        exit 1
+    fi
+
+    if ! EXPECTED_RESPONSE="$expected_response" EXPECTED_TOOL_CALLS="$expected_tool_calls" node -e '
+        const result = JSON.parse(require("fs").readFileSync(0, "utf8"));
+        const problems = [];
+        if (result.response !== process.env.EXPECTED_RESPONSE) {
+            problems.push(`response was ${JSON.stringify(result.response)}, expected ${JSON.stringify(process.env.EXPECTED_RESPONSE)}`);
+        }
+        const failed = result.toolCalls.filter(call => call.error);
+        if (result.toolCalls.length !== Number(process.env.EXPECTED_TOOL_CALLS) || failed.length > 0) {
+            problems.push(`${result.toolCalls.length} tool calls (${failed.length} failed), expected ${process.env.EXPECTED_TOOL_CALLS}`);
+        }
+        problems.forEach(problem => console.error(`   ${problem}`));
+        process.exit(problems.length > 0 ? 1 : 0);
+    ' <<< "$output"; then
+        echo "❌ Replay of $label gave the wrong result"
+        exit 1
+    fi
+    echo "✓ Replay of $label"
+}
+
+check_replay "a plain response" \
+    "Hello! This reply was played back from a **fixture**." 0 \
+    --replay fixtures/replay/hello.jsonl "Say hello"
+
+check_replay "a tool call" \
+    "The directory holds the replay fixtures." 1 \
+    --config fixtures/replay/replay-config.json \
+    --replay fixtures/replay/tool-call.jsonl "What is in this directory?"
+
+# Serve the memory server over Streamable HTTP on a free port and run one
+# tool call against it through --server
+memory_dir=$(mktemp -d)
+memory_port=$(node -e '
+    const server = require("net").createServer().listen(0, "127.0.0.1", () => {
+        console.log(server.address().port);
+        server.close();
+    });
+')
+MEMORY_FILE_PATH="$memory_dir/memory.json" node --import tsx src/memory-server-standalone.ts \
+    --transport http --port "$memory_port" > "$memory_dir/server.log" 2>&1 &
+memory_pid=$!
+trap 'kill "$memory_pid" 2> /dev/null; rm -rf "$memory_dir"' EXIT
+
+for _ in $(seq 50); do
+    grep -q "Listening on" "$memory_dir/server.log" && break
+    sleep 0.2
+done
+if ! grep -q "Listening on" "$memory_dir/server.log"; then
+    cat "$memory_dir/server.log"
+    echo "❌ Memory server did not start over HTTP"
+    exit 1
+fi
+
+check_replay "a tool call over HTTP" \
+    "Replay is stored in memory." 1 \
+    --yolo --server "http://127.0.0.1:$memory_port/mcp" \
+    --replay fixtures/replay/memory-http.jsonl "Remember that this came from a replay"
+
+if ! grep -q "Stored over HTTP" "$memory_dir/memory.json" 2> /dev/null; then
+    echo "❌ The memory server did not store the entity sent over HTTP"
+    exit 1
+fi
+
+echo "✅ Replay checks passed!"
+echo ""
+
 # Check if OpenAI API key is set
 if [ -z "$OPENAI_API_KEY" ]; then
     echo "❌ OPENAI_API_KEY environment variable not set"